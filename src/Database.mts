@@ -0,0 +1,243 @@
+import assert from "assert";
+import type { Database as BetterSqlite3Database } from "better-sqlite3";
+import { type Observable, map, merge } from "rxjs";
+import { mkFindBy } from "./RSql/mkHelpers.mjs";
+import { type RowWrite, Table, type TableOptions } from "./Table.mjs";
+import { TransactionScope } from "./core/TransactionScope.mjs";
+import {
+	BetterSqlite3Storage,
+	type BetterSqlite3StorageOptions,
+} from "./storages/better-sqlite3/BetterSqlite3Storage.mjs";
+import type { PreparedQueryAll } from "./types/PreparedStatement.mjs";
+import type {
+	ForeignKey,
+	TableEvent,
+	TableSchemaBase,
+} from "./types/TableSchema.mjs";
+import { eqTuple } from "./util/tuple.mjs";
+
+export type DatabaseOptions = BetterSqlite3StorageOptions &
+	Pick<TableOptions, "validateRows">;
+
+export type Tables<Schemas extends Record<string, TableSchemaBase>> = {
+	[name in keyof Schemas]: Table<Schemas[name]>;
+};
+
+export type DatabaseChange<Schemas extends Record<string, TableSchemaBase>> = {
+	[name in keyof Schemas]: {
+		table: name;
+		events: TableEvent<Schemas[name]>[];
+	};
+}[keyof Schemas];
+
+/**
+ * A set of tables over one better-sqlite3 connection.
+ * Transactions span every table, and their events are published after the
+ * commit, so dynamics of different tables update together.
+ *
+ * Foreign keys are enforced, and the rows SQLite deletes or updates following
+ * one get events of their own, published after the write's.
+ */
+export class Database<Schemas extends Record<string, TableSchemaBase>> {
+	constructor(
+		public readonly schemas: Schemas,
+		public readonly connection: BetterSqlite3Database,
+		options: DatabaseOptions = {},
+	) {
+		this.connection.pragma("foreign_keys = ON");
+		this.transactionScope = new TransactionScope((fn) =>
+			this.connection.transaction(fn)(),
+		);
+		for (const [name, schema] of Object.entries(schemas)) {
+			for (const foreignKey of schema.foreignKeys ?? []) {
+				const referencing =
+					this.referencing.get(foreignKey.references.table) ?? [];
+				referencing.push({ name, schema, foreignKey });
+				this.referencing.set(foreignKey.references.table, referencing);
+			}
+		}
+		this.tables = Object.fromEntries(
+			Object.entries(schemas).map(([name, schema]) => {
+				const storage = new BetterSqlite3Storage(schema, connection, options);
+				this.storages.set(name, storage);
+				const table = new Table(schema, storage, {
+					transactionScope: this.transactionScope,
+					validateRows: options.validateRows,
+					onWrite: (write) => this.cascade(schema, write),
+					resolveTable: (name) => this.tablesByName.get(name),
+				});
+				this.tablesByName.set(
+					schema.name,
+					table as unknown as Table<TableSchemaBase>,
+				);
+				return [name, table];
+			}),
+		) as unknown as Tables<Schemas>;
+		this.changes = merge(
+			...Object.entries(this.tables).map(([table, { changes }]) =>
+				changes.pipe(map((events) => ({ table, events }))),
+			),
+		) as Observable<DatabaseChange<Schemas>>;
+	}
+
+	readonly tables: Tables<Schemas>;
+
+	/**
+	 * Batches of events from every table, tagged with the table's key.
+	 */
+	readonly changes: Observable<DatabaseChange<Schemas>>;
+
+	transaction<R>(fn: () => R): R {
+		return this.transactionScope.run(fn);
+	}
+
+	/**
+	 * Reads the rows a write cascades to before SQLite changes them, and returns
+	 * a callback publishing their events.
+	 */
+	private cascade(
+		schema: TableSchemaBase,
+		write: RowWrite,
+	): (() => void) | undefined {
+		const publishes: (() => void)[] = [];
+		this.collectCascade(schema, write, publishes);
+		if (publishes.length === 0) return undefined;
+		return () => {
+			for (const publish of publishes) publish();
+		};
+	}
+
+	private collectCascade(
+		schema: TableSchemaBase,
+		write: RowWrite,
+		publishes: (() => void)[],
+	) {
+		for (const { name, schema: child, foreignKey } of this.referencing.get(
+			schema.name,
+		) ?? []) {
+			const action =
+				write.kind === "delete" ? foreignKey.onDelete : foreignKey.onUpdate;
+			if (
+				action !== "cascade" &&
+				action !== "set null" &&
+				action !== "set default"
+			) {
+				continue;
+			}
+			const referenced = foreignKey.references.columns;
+			const before = referenced.map((col) => write.before[col]);
+			const after =
+				write.kind === "update"
+					? referenced.map((col) =>
+							col in write.changes ? write.changes[col] : write.before[col],
+						)
+					: [];
+			// SQLite only follows updates changing the referenced columns
+			if (write.kind === "update" && eqTuple(before, after)) continue;
+
+			const rows = this.findReferencing(name, child, foreignKey, before);
+			if (rows.length === 0) continue;
+			// What SQLite writes to the foreign key columns, as far as it's known
+			// here. Only constant defaults are known for SET DEFAULT.
+			const written = Object.fromEntries(
+				foreignKey.columns.flatMap((col, i) => {
+					if (action === "cascade") return [[col, after[i]]];
+					if (action === "set null") return [[col, null]];
+					const fallback = child.columns[col]?.default;
+					return fallback?.kind === "constant" ? [[col, fallback.value]] : [];
+				}),
+			);
+			const table = this.tables[name] as unknown as Table<TableSchemaBase>;
+			const keyOf = (row: Record<string, unknown>) =>
+				Object.fromEntries(child.primaryKey.map((pk) => [pk, row[pk]]));
+
+			// Events of a table come before the ones its rows cascade to
+			if (write.kind === "delete" && action === "cascade") {
+				publishes.push(() =>
+					table.publish(
+						rows.map((row) => ({
+							kind: "delete",
+							key: keyOf(row),
+							before: row,
+						})),
+					),
+				);
+				for (const row of rows) {
+					this.collectCascade(
+						child,
+						{ kind: "delete", before: row },
+						publishes,
+					);
+				}
+				continue;
+			}
+			// Read the rows back, as another foreign key may have changed them too
+			const storage = this.storages.get(name);
+			assert(storage, `Unknown table ${name}`);
+			publishes.push(() =>
+				table.publish(
+					rows.flatMap((row): TableEvent<TableSchemaBase>[] => {
+						const key = keyOf(row);
+						// The foreign key may be part of the primary key
+						const nextKey = keyOf({ ...row, ...written });
+						const stored = storage.findUnique(nextKey);
+						if (stored === null) return [];
+						if (!eqTuple(Object.values(key), Object.values(nextKey))) {
+							return [
+								{ kind: "delete", key, before: row },
+								{ kind: "insert", row: stored, after: stored },
+							];
+						}
+						const changes = Object.fromEntries(
+							foreignKey.columns.map((col) => [col, stored[col]]),
+						);
+						return [
+							{ kind: "update", key, row: changes, before: row, after: stored },
+						];
+					}),
+				),
+			);
+			if (Object.keys(written).length === foreignKey.columns.length) {
+				for (const row of rows) {
+					this.collectCascade(
+						child,
+						{ kind: "update", before: row, changes: written },
+						publishes,
+					);
+				}
+			}
+		}
+	}
+
+	private findReferencing(
+		name: string,
+		schema: TableSchemaBase,
+		foreignKey: ForeignKey,
+		values: unknown[],
+	): Record<string, unknown>[] {
+		let prepared = this.preparedFindReferencing.get(foreignKey);
+		if (prepared === undefined) {
+			const storage = this.storages.get(name);
+			assert(storage, `Unknown table ${name}`);
+			prepared = storage.prepareQueryAll(mkFindBy(schema, foreignKey.columns));
+			this.preparedFindReferencing.set(foreignKey, prepared);
+		}
+		return prepared(
+			Object.fromEntries(foreignKey.columns.map((col, i) => [col, values[i]])),
+		);
+	}
+
+	private transactionScope: TransactionScope;
+	// Tables by the name of their schema, which is how schemas refer to them
+	private tablesByName = new Map<string, Table<TableSchemaBase>>();
+	private storages = new Map<string, BetterSqlite3Storage<TableSchemaBase>>();
+	// The foreign keys referring to each table, by the table's name
+	private referencing = new Map<
+		string,
+		{ name: string; schema: TableSchemaBase; foreignKey: ForeignKey }[]
+	>();
+	private preparedFindReferencing = new Map<
+		ForeignKey,
+		PreparedQueryAll<Record<string, unknown>, Record<string, unknown>>
+	>();
+}
@@ -0,0 +1,538 @@
+import BetterSqlite3 from "better-sqlite3";
+import { Subject } from "rxjs";
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import { Database, type DatabaseChange } from "./Database.mjs";
+import type { PageEvent } from "./Page.mjs";
+import type { TableSchemaBase } from "./types/TableSchema.mjs";
+
+const schemas = {
+	orders: {
+		name: "orders",
+		columns: {
+			id: { kind: "number" },
+			total: { kind: "number" },
+		},
+		primaryKey: ["id"] as const,
+	},
+	orderItems: {
+		name: "order_items",
+		columns: {
+			order_id: { kind: "number" },
+			line: { kind: "number" },
+			price: { kind: "number" },
+		},
+		primaryKey: ["order_id", "line"] as const,
+	},
+} satisfies Record<string, TableSchemaBase>;
+
+function setup() {
+	const connection = new BetterSqlite3(":memory:");
+	const db = new Database(schemas, connection, {
+		createTableIfNotExists: true,
+	});
+	const changes: DatabaseChange<typeof schemas>[] = [];
+	db.changes.subscribe((change) => changes.push(change));
+	return { db, changes };
+}
+
+describe("Database", () => {
+	it("hands out a table for each schema", () => {
+		const { db } = setup();
+		db.tables.orders.insert({ id: 1, total: 0 });
+		db.tables.orderItems.insert({ order_id: 1, line: 1, price: 10 });
+
+		expect(db.tables.orders.findUnique({ id: 1 }).read()).toEqual({
+			id: 1,
+			total: 0,
+		});
+		expect(
+			db.tables.orderItems.findUnique({ order_id: 1, line: 1 }).read(),
+		).toEqual({ order_id: 1, line: 1, price: 10 });
+	});
+
+	it("publishes the events of a cross-table transaction after the commit", () => {
+		const { db, changes } = setup();
+		db.tables.orders.insert({ id: 1, total: 0 });
+		const order = db.tables.orders.findUnique({ id: 1 });
+		changes.length = 0;
+
+		db.transaction(() => {
+			db.tables.orderItems.insert({ order_id: 1, line: 1, price: 10 });
+			db.tables.orders.update({ id: 1 }, { total: 10 });
+			expect(changes).toEqual([]);
+			expect(order.read()).toEqual({ id: 1, total: 0 });
+		});
+
+		expect(changes.map((change) => change.table)).toEqual([
+			"orderItems",
+			"orders",
+		]);
+		expect(order.read()).toEqual({ id: 1, total: 10 });
+	});
+
+	it("rolls back every table and publishes nothing when the transaction throws", () => {
+		const { db, changes } = setup();
+		db.tables.orders.insert({ id: 1, total: 0 });
+		changes.length = 0;
+
+		expect(() =>
+			db.transaction(() => {
+				db.tables.orderItems.insert({ order_id: 1, line: 1, price: 10 });
+				db.tables.orders.update({ id: 1 }, { total: 10 });
+				throw new Error("abort");
+			}),
+		).toThrow("abort");
+
+		expect(changes).toEqual([]);
+		expect(db.tables.orders.findUnique({ id: 1 }).read()).toEqual({
+			id: 1,
+			total: 0,
+		});
+		expect(
+			db.tables.orderItems.findUnique({ order_id: 1, line: 1 }).read(),
+		).toBeNull();
+	});
+
+	it("joins a table transaction into the enclosing database transaction", () => {
+		const { db, changes } = setup();
+
+		db.transaction(() => {
+			db.tables.orders.transaction(() => {
+				db.tables.orders.insert({ id: 1, total: 10 });
+			});
+			expect(changes).toEqual([]);
+			db.tables.orderItems.insert({ order_id: 1, line: 1, price: 10 });
+		});
+
+		expect(changes).toHaveLength(2);
+	});
+});
+
+const librarySchemas = {
+	authors: {
+		name: "authors",
+		columns: {
+			id: { kind: "number" },
+			handle: { kind: "string" },
+		},
+		primaryKey: ["id"] as const,
+		uniqueIndexes: { handle: ["handle"] },
+	},
+	books: {
+		name: "books",
+		columns: {
+			id: { kind: "number" },
+			author_id: { kind: "number" },
+		},
+		primaryKey: ["id"] as const,
+		foreignKeys: [
+			{
+				columns: ["author_id"],
+				references: { table: "authors", columns: ["id"] },
+				onDelete: "cascade",
+			},
+		],
+	},
+	reviews: {
+		name: "reviews",
+		columns: {
+			id: { kind: "number" },
+			book_id: { kind: "number" },
+		},
+		primaryKey: ["id"] as const,
+		foreignKeys: [
+			{
+				columns: ["book_id"],
+				references: { table: "books", columns: ["id"] },
+				onDelete: "cascade",
+			},
+		],
+	},
+	bookmarks: {
+		name: "bookmarks",
+		columns: {
+			id: { kind: "number" },
+			book_id: { kind: "number", nullable: true },
+			author_handle: { kind: "string", nullable: true },
+		},
+		primaryKey: ["id"] as const,
+		foreignKeys: [
+			{
+				columns: ["book_id"],
+				references: { table: "books", columns: ["id"] },
+				onDelete: "set null",
+			},
+			{
+				columns: ["author_handle"],
+				references: { table: "authors", columns: ["handle"] },
+				onDelete: "set null",
+				onUpdate: "cascade",
+			},
+		],
+	},
+} satisfies Record<string, TableSchemaBase>;
+
+function setupLibrary() {
+	const db = new Database(librarySchemas, new BetterSqlite3(":memory:"), {
+		createTableIfNotExists: true,
+	});
+	db.tables.authors.insert({ id: 1, handle: "ann" });
+	db.tables.books.insert({ id: 1, author_id: 1 });
+	db.tables.books.insert({ id: 2, author_id: 1 });
+	db.tables.reviews.insert({ id: 1, book_id: 2 });
+	db.tables.bookmarks.insert({ id: 1, book_id: 2, author_handle: "ann" });
+	const changes: DatabaseChange<typeof librarySchemas>[] = [];
+	db.changes.subscribe((change) => changes.push(change));
+	return { db, changes };
+}
+
+describe("Database foreign keys", () => {
+	it("rejects rows referring to a missing row", () => {
+		const { db, changes } = setupLibrary();
+		expect(() => db.tables.books.insert({ id: 3, author_id: 2 })).toThrow(
+			/FOREIGN KEY constraint failed/,
+		);
+		expect(changes).toEqual([]);
+	});
+
+	it("publishes the deletes and updates a delete cascades to", () => {
+		const { db, changes } = setupLibrary();
+		const book = db.tables.books.findUnique({ id: 2 });
+		const reviews = db.tables.reviews.findMany(
+			{
+				kind: "forward",
+				first: 10,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			new Subject<PageEvent>(),
+		);
+		const bookmark = db.tables.bookmarks.findUnique({ id: 1 });
+
+		db.tables.authors.delete({ id: 1 });
+
+		expect(changes.map((change) => change.table)).toEqual([
+			"authors",
+			"books",
+			"reviews",
+			"bookmarks",
+			"bookmarks",
+		]);
+		expect(changes.find((change) => change.table === "books")?.events).toEqual([
+			{ kind: "delete", key: { id: 1 }, before: { id: 1, author_id: 1 } },
+			{ kind: "delete", key: { id: 2 }, before: { id: 2, author_id: 1 } },
+		]);
+		expect(book.read()).toBeNull();
+		expect(Array.from(reviews.read().rows)).toEqual([]);
+		expect(bookmark.read()).toEqual({
+			id: 1,
+			book_id: null,
+			author_handle: null,
+		});
+	});
+
+	it("publishes the updates an update cascades to", () => {
+		const { db, changes } = setupLibrary();
+		const bookmark = db.tables.bookmarks.findUnique({ id: 1 });
+
+		db.tables.authors.update({ id: 1 }, { handle: "anne" });
+
+		expect(changes).toEqual([
+			expect.objectContaining({ table: "authors" }),
+			{
+				table: "bookmarks",
+				events: [
+					{
+						kind: "update",
+						key: { id: 1 },
+						row: { author_handle: "anne" },
+						before: { id: 1, book_id: 2, author_handle: "ann" },
+						after: { id: 1, book_id: 2, author_handle: "anne" },
+					},
+				],
+			},
+		]);
+		expect(bookmark.read()).toEqual({
+			id: 1,
+			book_id: 2,
+			author_handle: "anne",
+		});
+	});
+
+	it("moves the rows whose key an update cascades to", () => {
+		const db = new Database(
+			{
+				orders: {
+					name: "orders",
+					columns: { id: { kind: "number" }, number: { kind: "number" } },
+					primaryKey: ["id"] as const,
+					uniqueIndexes: { number: ["number"] },
+				},
+				items: {
+					name: "order_items",
+					columns: {
+						order_id: { kind: "number" },
+						line: { kind: "number" },
+						price: { kind: "number" },
+					},
+					primaryKey: ["order_id", "line"] as const,
+					foreignKeys: [
+						{
+							columns: ["order_id"],
+							references: { table: "orders", columns: ["number"] },
+							onUpdate: "cascade",
+						},
+					],
+				},
+			},
+			new BetterSqlite3(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		for (const number of [0, 1, 3]) {
+			db.tables.orders.insert({ id: number, number });
+			db.tables.items.insert({ order_id: number, line: 1, price: 10 });
+		}
+		const moved = db.tables.items.findUnique({ order_id: 1, line: 1 });
+		const items = db.tables.items.findMany(
+			{
+				kind: "forward",
+				first: 10,
+				orderBy: [{ column: "order_id", direction: "asc" }],
+			},
+			new Subject<PageEvent>(),
+		);
+		const events: unknown[] = [];
+		db.tables.items.changes.subscribe((batch) => events.push(...batch));
+
+		db.tables.orders.update({ id: 1 }, { number: 2 });
+
+		expect(events).toEqual([
+			{
+				kind: "delete",
+				key: { order_id: 1, line: 1 },
+				before: { order_id: 1, line: 1, price: 10 },
+			},
+			{
+				kind: "insert",
+				row: { order_id: 2, line: 1, price: 10 },
+				after: { order_id: 2, line: 1, price: 10 },
+			},
+		]);
+		expect(moved.read()).toBeNull();
+		expect(Array.from(items.read().rows)).toEqual([
+			{ order_id: 0, line: 1 },
+			{ order_id: 2, line: 1 },
+			{ order_id: 3, line: 1 },
+		]);
+	});
+
+	it("publishes cascaded events with the transaction's", () => {
+		const { db, changes } = setupLibrary();
+
+		db.transaction(() => {
+			db.tables.books.delete({ id: 2 });
+			expect(changes).toEqual([]);
+		});
+
+		expect(changes.map((change) => change.table)).toEqual([
+			"books",
+			"reviews",
+			"bookmarks",
+		]);
+	});
+});
+
+const userSchema = {
+	name: "users",
+	columns: {
+		id: { kind: "number" },
+		name: { kind: "string" },
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+
+const commentSchema = {
+	name: "comments",
+	columns: {
+		id: { kind: "number" },
+		post_id: { kind: "number" },
+		body: { kind: "string" },
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+
+const blogSchemas = {
+	users: userSchema,
+	comments: commentSchema,
+	posts: {
+		name: "posts",
+		columns: {
+			id: { kind: "number" },
+			author_id: { kind: "number" },
+		},
+		primaryKey: ["id"] as const,
+		relations: {
+			author: {
+				kind: "one",
+				schema: userSchema,
+				columns: ["author_id"],
+				references: ["id"],
+			},
+			comments: {
+				kind: "many",
+				schema: commentSchema,
+				columns: ["id"],
+				references: ["post_id"],
+			},
+		},
+	},
+} satisfies Record<string, TableSchemaBase>;
+
+function setupBlog() {
+	const db = new Database(blogSchemas, new BetterSqlite3(":memory:"), {
+		createTableIfNotExists: true,
+	});
+	db.tables.users.insert({ id: 1, name: "Ann" });
+	db.tables.users.insert({ id: 2, name: "Bob" });
+	db.tables.posts.insert({ id: 1, author_id: 1 });
+	db.tables.posts.insert({ id: 2, author_id: 2 });
+	db.tables.comments.insert({ id: 1, post_id: 1, body: "first" });
+	return db;
+}
+
+describe("Database relations", () => {
+	it("includes the related rows of a row", () => {
+		const db = setupBlog();
+		const post = db.tables.posts.findUnique(
+			{ id: 1 },
+			{ include: ["author", "comments"] },
+		);
+
+		expectTypeOf(post.read()).toEqualTypeOf<
+			| ({ id: number; author_id: number } & {
+					author: { id: number; name: string } | null;
+					comments: { id: number; post_id: number; body: string }[];
+			  })
+			| null
+		>();
+		expect(post.read()).toEqual({
+			id: 1,
+			author_id: 1,
+			author: { id: 1, name: "Ann" },
+			comments: [{ id: 1, post_id: 1, body: "first" }],
+		});
+	});
+
+	it("updates included rows when either side changes", () => {
+		const db = setupBlog();
+		const post = db.tables.posts.findUnique(
+			{ id: 1 },
+			{ include: ["author", "comments"] },
+		);
+		let updates = 0;
+		post.updated.subscribe(() => updates++);
+
+		db.tables.users.update({ id: 1 }, { name: "Anne" });
+		expect(post.read()?.author).toEqual({ id: 1, name: "Anne" });
+
+		db.tables.comments.insert({ id: 2, post_id: 1, body: "second" });
+		db.tables.comments.insert({ id: 3, post_id: 2, body: "elsewhere" });
+		expect(post.read()?.comments.map((comment) => comment.id)).toEqual([1, 2]);
+
+		db.tables.posts.update({ id: 1 }, { author_id: 2 });
+		expect(post.read()?.author).toEqual({ id: 2, name: "Bob" });
+
+		// The comment on another post changed nothing
+		expect(updates).toBe(3);
+	});
+
+	it("includes related rows in every row of a page", () => {
+		const db = setupBlog();
+		const page = db.tables.posts.findMany(
+			{
+				kind: "forward",
+				first: 10,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			new Subject<PageEvent>(),
+			{ include: ["author"] },
+		);
+		const deltas: unknown[] = [];
+		page.updated.subscribe((delta) => deltas.push(delta));
+
+		expect(Array.from(page.read().rows)).toEqual([
+			{ id: 1, author: { id: 1, name: "Ann" } },
+			{ id: 2, author: { id: 2, name: "Bob" } },
+		]);
+
+		db.tables.users.update({ id: 2 }, { name: "Robert" });
+		expect(deltas).toEqual([
+			[
+				{
+					kind: "move",
+					from: 1,
+					to: 1,
+					row: { id: 2, author: { id: 2, name: "Robert" } },
+				},
+			],
+		]);
+
+		db.tables.posts.update({ id: 2 }, { author_id: 1 });
+		expect(Array.from(page.read().rows)).toEqual([
+			{ id: 1, author: { id: 1, name: "Ann" } },
+			{ id: 2, author: { id: 1, name: "Ann" } },
+		]);
+	});
+
+	it("reads the relations of a page in batches and again only for the rows a change concerns", () => {
+		const db = setupBlog();
+		for (let id = 3; id <= 20; id++) {
+			db.tables.posts.insert({ id, author_id: 1 });
+		}
+		const statement = Object.getPrototypeOf(
+			new BetterSqlite3(":memory:").prepare("SELECT 1"),
+		);
+		const all = vi.spyOn(statement, "all");
+		const relationReads = () =>
+			all.mock.contexts.filter((context) =>
+				(context as BetterSqlite3.Statement).source.includes("LEFT JOIN"),
+			).length;
+
+		const page = db.tables.posts.findMany(
+			{
+				kind: "forward",
+				first: 20,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			new Subject<PageEvent>(),
+			{ include: ["author", "comments"] },
+		);
+		const deltas: unknown[] = [];
+		page.updated.subscribe((delta) => deltas.push(delta));
+		expect(relationReads()).toBe(2);
+
+		db.tables.users.update({ id: 2 }, { name: "Robert" });
+		db.tables.comments.insert({ id: 2, post_id: 5, body: "second" });
+		expect(relationReads()).toBe(6);
+		expect(deltas).toEqual([
+			[
+				{
+					kind: "move",
+					from: 1,
+					to: 1,
+					row: expect.objectContaining({ author: { id: 2, name: "Robert" } }),
+				},
+			],
+			[
+				{
+					kind: "move",
+					from: 4,
+					to: 4,
+					row: expect.objectContaining({
+						comments: [{ id: 2, post_id: 5, body: "second" }],
+					}),
+				},
+			],
+		]);
+		all.mockRestore();
+	});
+});
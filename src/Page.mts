@@ -9,18 +9,56 @@ import type {
 	Row,
 	TableSchemaBase,
 } from "./types/TableSchema.mjs";
+import { compareTuple } from "./util/tuple.mjs";
 
-export type PageDelta<T extends TableSchemaBase> = (
+/**
+ * Changes to the rows of a page, applied in order. Each index is relative to
+ * `rows` as left by the entries before it. A `move` takes out the row at
+ * `from` and puts `row`, its new image, at `to`, which may be the same index.
+ */
+export type PageDelta<
+	T extends TableSchemaBase,
+	Cursor extends PrimaryKeyRecord<T> = PrimaryKeyRecord<T>,
+> = (
 	| {
 			kind: "remove";
+			index: number;
 			key: PrimaryKeyRecord<T>;
 	  }
 	| {
 			kind: "add";
-			row: Row<T>;
+			index: number;
+			row: Cursor;
+	  }
+	| {
+			kind: "move";
+			from: number;
+			to: number;
+			row: Cursor;
 	  }
 )[];
 
+/**
+ * Positions of rows from `start` up to, but not including, `end`.
+ */
+export type RowRange = {
+	start: number;
+	end: number;
+};
+
+/**
+ * The rows of a range. There may be fewer than asked for near the end of
+ * the table.
+ */
+export type RangeWindow<
+	TableSchema extends TableSchemaBase,
+	Cursor extends PrimaryKeyRecord<TableSchema>,
+> = {
+	start: number;
+	rows: Cursor[];
+	rowCount: number;
+};
+
 export type Page<
 	TableSchema extends TableSchemaBase,
 	Cursor extends PrimaryKeyRecord<TableSchema>,
@@ -53,20 +91,89 @@ export type BackwardPageInit<
 	last: number;
 };
 
+// Centered: up to `before` rows before the anchor, the anchor row itself
+// if it's there, and up to `after` rows after it
+
+export type AroundPageInit<
+	TableSchema extends TableSchemaBase,
+	Cursor extends PrimaryKeyRecord<TableSchema>,
+> = {
+	kind: "around";
+	anchor: Cursor;
+	before: number;
+	after: number;
+};
+
+// Random access: the `limit` rows from position `offset` on
+
+export type OffsetPageInit = {
+	kind: "offset";
+	offset: number;
+	limit: number;
+};
+
 export type PageInit<
 	TableSchema extends TableSchemaBase,
 	Cursor extends PrimaryKeyRecord<TableSchema>,
 > = (
 	| ForwardPageInit<TableSchema, Cursor>
 	| BackwardPageInit<TableSchema, Cursor>
+	| AroundPageInit<TableSchema, Cursor>
+	| OffsetPageInit
 ) & {
+	// Primary key columns left out are appended to break ties
 	orderBy: {
 		column: string & keyof Cursor;
 		direction: Direction;
 	}[];
 	filter?: Expression<TableSchema, unknown>;
+	/**
+	 * Columns the rows of the page hold besides the `orderBy` ones, or "*" for
+	 * all of them. Without it rows hold only the `orderBy` columns.
+	 */
+	select?: "*" | readonly (string & keyof Cursor)[];
 };
 
+/**
+ * Appends the primary key columns `orderBy` leaves out, so that rows are
+ * always in a total order. They follow the direction of the last column.
+ */
+export function withKeyTiebreak<
+	Order extends { column: string; direction: Direction },
+>(schema: TableSchemaBase, orderBy: readonly Order[]): Order[] {
+	const direction = orderBy.at(-1)?.direction ?? "asc";
+	return [
+		...orderBy,
+		...schema.primaryKey
+			.filter((pk) => !orderBy.some((o) => o.column === pk))
+			.map((pk) => ({ column: pk, direction }) as Order),
+	];
+}
+
+/**
+ * The columns a page reads for each row, `orderBy` ones first.
+ */
+export function selectedColumns(
+	schema: TableSchemaBase,
+	pageInput: {
+		orderBy: readonly { column: string }[];
+		select?: "*" | readonly string[];
+	},
+): string[] {
+	const columns = pageInput.orderBy.map((o) => o.column);
+	const selected =
+		pageInput.select === "*"
+			? Object.keys(schema.columns)
+			: (pageInput.select ?? []);
+	return [...columns, ...selected.filter((col) => !columns.includes(col))];
+}
+
+/**
+ * Grows a live page at one edge.
+ * `loadMore` fetches `count` rows after the end of the page and `loadPrev`
+ * fetches `count` rows before its start. Afterwards the page keeps at most
+ * `retainCount` rows, dropping them from the opposite edge.
+ */
 export type PageEvent = {
 	kind: "loadMore" | "loadPrev";
 	count: number;
@@ -82,6 +189,21 @@ export type Direction = "asc" | "desc";
 export function invertDirection(dir: Direction): Direction {
 	return dir === "asc" ? "desc" : "asc";
 }
+
+/**
+ * Compares two rows by the columns of `orderBy`, honoring each column's direction.
+ */
+export function compareByOrder<Row extends Record<string, unknown>>(
+	orderBy: readonly { column: string & keyof Row; direction: Direction }[],
+	a: Row,
+	b: Row,
+): number {
+	for (const { column, direction } of orderBy) {
+		const order = compareTuple([a[column]], [b[column]]);
+		if (order !== 0) return direction === "asc" ? order : -order;
+	}
+	return 0;
+}
 export type PageParameter<
 	TableSchema extends TableSchemaBase,
 	Cursor extends PrimaryKeyRecord<TableSchema>,
@@ -103,4 +225,95 @@ export type PreparedQueriesForFindMany<
 	countTotal: PreparedQueryOne<never, { "COUNT(*)": number }>;
 	countAfter: PreparedQueryOne<{ after: Cursor }, { "COUNT(*)": number }>;
 	countBefore: PreparedQueryOne<{ before: Cursor }, { "COUNT(*)": number }>;
+	loadAt: PreparedQueryAll<Omit<OffsetPageInit, "kind">, Cursor>;
+	// The row with the key, if it's in the filtered set
+	findKey: PreparedQueryOne<PrimaryKeyRecord<TableSchema>, Cursor>;
 };
+export type PreparedFindMany<
+	TableSchema extends TableSchemaBase,
+	Cursor extends PrimaryKeyRecord<TableSchema>,
+> = {
+	// Rows are returned in `orderBy` order for both directions
+	loadForward(
+		pageInput: Omit<ForwardPageInit<TableSchema, Cursor>, "kind">,
+	): Cursor[];
+	loadBackward(
+		pageInput: Omit<BackwardPageInit<TableSchema, Cursor>, "kind">,
+	): Cursor[];
+	loadOffset(pageInput: Omit<OffsetPageInit, "kind">): Cursor[];
+	// The row with the key, if it passes the filter
+	findKey(key: PrimaryKeyRecord<TableSchema>): Cursor | null;
+	countTotal(): number;
+	countAfter(after: Cursor): number;
+	countBefore(before: Cursor): number;
+	/**
+	 * The position of the row with the key in the filtered, ordered rows, or
+	 * null when the filter leaves it out.
+	 */
+	indexOf(key: PrimaryKeyRecord<TableSchema>): number | null;
+};
+
+/**
+ * Reads an offset page, counting the rows on each side of it.
+ */
+export function loadOffsetPage<
+	TableSchema extends TableSchemaBase,
+	Cursor extends PrimaryKeyRecord<TableSchema>,
+>(
+	queries: PreparedFindMany<TableSchema, Cursor>,
+	pageInput: Omit<OffsetPageInit, "kind">,
+): Page<TableSchema, Cursor> & { rows: Cursor[] } {
+	const rows = queries.loadOffset(pageInput);
+	const rowCount = queries.countTotal();
+	const itemBeforeCount = Math.min(pageInput.offset, rowCount);
+	return {
+		rows,
+		rowCount,
+		startCursor: rows[0],
+		endCursor: rows.at(-1),
+		itemBeforeCount,
+		itemAfterCount: rowCount - itemBeforeCount - rows.length,
+	};
+}
+
+/**
+ * Reads a page around its anchor, counting the rows on each side of it.
+ */
+export function loadAroundPage<
+	TableSchema extends TableSchemaBase,
+	Cursor extends PrimaryKeyRecord<TableSchema>,
+>(
+	queries: PreparedFindMany<TableSchema, Cursor>,
+	pageInput: AroundPageInit<TableSchema, Cursor> &
+		Pick<PageInit<TableSchema, Cursor>, "orderBy">,
+	primaryKey: readonly string[],
+): Page<TableSchema, Cursor> & { rows: Cursor[] } {
+	const { anchor } = pageInput;
+	const key = Object.fromEntries(
+		primaryKey.map((pk) => [pk, anchor[pk as keyof Cursor]]),
+	) as PrimaryKeyRecord<TableSchema>;
+	// The anchor row sits between the two halves unless it has moved away
+	const found = queries.findKey(key);
+	const rows = [
+		...queries.loadBackward({ before: anchor, last: pageInput.before }),
+		...(found && compareByOrder(pageInput.orderBy, found, anchor) === 0
+			? [found]
+			: []),
+		...queries.loadForward({ after: anchor, first: pageInput.after }),
+	];
+	const startCursor = rows[0] ?? anchor;
+	const endCursor = rows.at(-1) ?? anchor;
+	const rowCount = queries.countTotal();
+	const itemBeforeCount = queries.countBefore(startCursor);
+	return {
+		rows,
+		rowCount,
+		startCursor,
+		endCursor,
+		itemBeforeCount,
+		itemAfterCount:
+			rows.length > 0
+				? queries.countAfter(endCursor)
+				: rowCount - itemBeforeCount,
+	};
+}
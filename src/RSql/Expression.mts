@@ -30,12 +30,14 @@ export type BinOp<T extends TableSchemaBase> = {
 		| "/"
 		| "^"
 		| "AND"
-		| "OR";
+		| "OR"
+		| "IS"
+		| "IS NOT";
 };
 export type UnOp<T extends TableSchemaBase> = {
 	kind: "unOp";
 	expression: Expression<T, unknown>;
-	operator: "-" | "+" | "NOT";
+	operator: "-" | "+" | "NOT" | "IS NULL" | "IS NOT NULL";
 };
 export type Fn<T extends TableSchemaBase> = {
 	kind: "function";
@@ -83,3 +85,19 @@ export function ands<T extends TableSchemaBase>(
 		operator: "AND",
 	};
 }
+
+export function ors<T extends TableSchemaBase>(
+	exprs: Expression<T>[],
+): Expression<T> | undefined {
+	if (exprs.length === 0) return undefined;
+	if (exprs.length === 1) return exprs[0];
+
+	return {
+		kind: "binOp",
+		// biome-ignore lint/style/noNonNullAssertion: <explanation>
+		left: exprs[0]!,
+		// biome-ignore lint/style/noNonNullAssertion: <explanation>
+		right: ors(exprs.slice(1))!,
+		operator: "OR",
+	};
+}
@@ -1,4 +1,8 @@
-import type { Row, TableSchemaBase } from "../types/TableSchema.mjs";
+import type {
+	ForeignKey,
+	Row,
+	TableSchemaBase,
+} from "../types/TableSchema.mjs";
 import type { Expression, Parameterizable } from "./Expression.mjs";
 
 export type OrderBy = {
@@ -6,13 +10,25 @@ export type OrderBy = {
 	direction: "asc" | "desc";
 };
 
+export type Join = {
+	kind: "left" | "inner";
+	schema: TableSchemaBase;
+	// The name the joined table's columns are qualified with
+	as: string;
+	on: Expression<TableSchemaBase>;
+};
+
 export type Select<Table extends TableSchemaBase = TableSchemaBase> = {
 	kind: "select";
 	table: string;
 	columns: "*" | Expression<Table>[];
+	// With joins, columns are qualified with the name of their table or alias,
+	// and read back under their qualified names
+	joins?: Join[];
 	where?: Expression<Table>;
 	orderBy?: OrderBy[];
 	limit?: Parameterizable;
+	offset?: Parameterizable;
 };
 
 export type Insert<Table extends TableSchemaBase = TableSchemaBase> = {
@@ -21,11 +37,16 @@ export type Insert<Table extends TableSchemaBase = TableSchemaBase> = {
 	values: Record<keyof Row<Table>, Parameterizable>;
 	onConflict?: {
 		columns: (keyof Row<Table>)[];
-		do: {
-			kind: "update";
-			set: Partial<Record<keyof Row<Table>, Parameterizable>>;
-		};
+		do:
+			| {
+					kind: "update";
+					set: Partial<Record<keyof Row<Table>, Parameterizable>>;
+			  }
+			// Leaves the existing row as it is
+			| { kind: "nothing" };
 	};
+	// Reads the stored row back, with defaults and generated columns filled in
+	returning?: "*";
 };
 
 export type Update<Table extends TableSchemaBase = TableSchemaBase> = {
@@ -41,8 +62,38 @@ export type Delete<Table extends TableSchemaBase = TableSchemaBase> = {
 	where?: Expression<Table>;
 };
 
+export type ColumnDefinition = {
+	name: string;
+	type: "TEXT" | "NUMERIC" | "INTEGER" | "REAL" | "BLOB";
+	notNull?: boolean;
+	// Restricts the column to these values with a CHECK constraint
+	values?: readonly string[];
+	default?: { kind: "constant"; value: unknown } | { kind: "sql"; sql: string };
+	generated?: { sql: string; stored?: boolean };
+};
+
+export type CreateTable = {
+	kind: "createTable";
+	table: string;
+	columns: ColumnDefinition[];
+	primaryKey: readonly string[];
+	foreignKeys?: readonly ForeignKey[];
+	ifNotExists?: boolean;
+};
+
+export type CreateIndex = {
+	kind: "createIndex";
+	name: string;
+	table: string;
+	columns: readonly string[];
+	unique?: boolean;
+	ifNotExists?: boolean;
+};
+
 export type Statement<Table extends TableSchemaBase = TableSchemaBase> =
 	| Select<Table>
 	| Insert<Table>
 	| Update<Table>
-	| Delete<Table>;
+	| Delete<Table>
+	| CreateTable
+	| CreateIndex;
@@ -5,6 +5,7 @@ import {
 	compileExpressionToSql,
 	compileStatementToSql,
 } from "./compileToSql.mjs";
+import { mkCreateIndexes, mkCreateTable } from "./mks.mjs";
 
 type ColumnType = {
 	kind: "number" | "string";
@@ -93,6 +94,20 @@ describe("compileSql", () => {
 		const params = getParams({});
 		expect(params).toEqual([]);
 	});
+	it("renders IS NULL and IS NOT NULL as postfix operators", () => {
+		const [isNullSql] = compileExpressionToSql<Table>({
+			kind: "unOp",
+			operator: "IS NULL",
+			expression: { kind: "column", name: "foo" },
+		});
+		expect(isNullSql).toBe("(foo IS NULL)");
+		const [isNotNullSql] = compileExpressionToSql<Table>({
+			kind: "unOp",
+			operator: "IS NOT NULL",
+			expression: { kind: "column", name: "foo" },
+		});
+		expect(isNotNullSql).toBe("(foo IS NOT NULL)");
+	});
 	it("renders function expression with compileSqlExpression", () => {
 		const expr: Expression<Table> = {
 			kind: "function",
@@ -122,6 +137,68 @@ describe("compileSql", () => {
 		expect(params).toEqual(["bar"]);
 	});
 
+	it("renders insert statement reading the row back", () => {
+		const [sql] = compileStatementToSql({
+			kind: "insert",
+			table: "dummy",
+			values: { foo: { kind: "constant", value: 1 } },
+			returning: "*",
+		});
+		expect(sql).toBe("INSERT INTO dummy (foo) VALUES (?) RETURNING *");
+	});
+
+	it("renders select statement with an offset", () => {
+		const offset = { kind: "constant", value: 20 } as const;
+		const [sql, getParams] = compileStatementToSql({
+			kind: "select",
+			table: "dummy",
+			columns: "*",
+			limit: { kind: "constant", value: 10 },
+			offset,
+		});
+		expect(sql).toBe("SELECT * FROM dummy LIMIT ? OFFSET ?");
+		expect(getParams()).toEqual([10, 20]);
+
+		const [withoutLimit] = compileStatementToSql({
+			kind: "select",
+			table: "dummy",
+			columns: "*",
+			offset,
+		});
+		expect(withoutLimit).toBe("SELECT * FROM dummy LIMIT -1 OFFSET ?");
+	});
+
+	it("renders select statement with a join, reading columns under their qualified names", () => {
+		const [sql] = compileStatementToSql({
+			kind: "select",
+			table: "posts",
+			columns: [
+				{ kind: "column", name: "posts.id" },
+				{ kind: "column", name: "author.name" },
+			],
+			joins: [
+				{
+					kind: "left",
+					schema: {
+						name: "users",
+						columns: { id: { kind: "number" }, name: { kind: "string" } },
+						primaryKey: ["id"],
+					},
+					as: "author",
+					on: {
+						kind: "binOp",
+						operator: "=",
+						left: { kind: "column", name: "author.id" },
+						right: { kind: "column", name: "posts.author_id" },
+					},
+				},
+			],
+		});
+		expect(sql).toBe(
+			'SELECT posts.id AS "posts.id", author.name AS "author.name" FROM posts LEFT JOIN users AS author ON (author.id = posts.author_id)',
+		);
+	});
+
 	it("renders update statement with compileSql", () => {
 		const expr: Statement = {
 			kind: "update",
@@ -183,4 +260,171 @@ describe("compileSql", () => {
 		const params = getParams({});
 		expect(params).toEqual([]);
 	});
+
+	it("renders create table statement", () => {
+		const expr: Statement = {
+			kind: "createTable",
+			table: "dummy",
+			columns: [
+				{ name: "foo", type: "NUMERIC", notNull: true },
+				{ name: "bar", type: "TEXT" },
+			],
+			primaryKey: ["foo", "bar"],
+			ifNotExists: true,
+		};
+		const [sql, getParams] = compileStatementToSql(expr);
+		expect(sql).toBe(
+			"CREATE TABLE IF NOT EXISTS dummy (foo NUMERIC NOT NULL, bar TEXT, PRIMARY KEY (foo, bar))",
+		);
+		expect(getParams({})).toEqual([]);
+	});
+
+	it("renders create table statement built from a schema", () => {
+		const [sql] = compileStatementToSql(
+			mkCreateTable({
+				name: "dummy",
+				columns: {
+					foo: { kind: "number" },
+					bar: { kind: "string" },
+					baz: { kind: "boolean" },
+					qux: { kind: "date" },
+				},
+				primaryKey: ["foo"],
+			}),
+		);
+		expect(sql).toBe(
+			"CREATE TABLE dummy (foo NUMERIC NOT NULL, bar TEXT NOT NULL, baz INTEGER NOT NULL, qux NUMERIC NOT NULL, PRIMARY KEY (foo))",
+		);
+	});
+
+	it("restricts enum columns with a CHECK constraint", () => {
+		const [sql] = compileStatementToSql(
+			mkCreateTable({
+				name: "dummy",
+				columns: {
+					foo: { kind: "number" },
+					bar: { kind: "enum", values: ["a", "it's"] },
+				},
+				primaryKey: ["foo"],
+			}),
+		);
+		expect(sql).toBe(
+			"CREATE TABLE dummy (foo NUMERIC NOT NULL, bar TEXT NOT NULL CHECK (bar IN ('a', 'it''s')), PRIMARY KEY (foo))",
+		);
+	});
+
+	it("renders defaults, generated columns and autoincrement keys", () => {
+		const [sql] = compileStatementToSql(
+			mkCreateTable({
+				name: "dummy",
+				columns: {
+					id: { kind: "number", generated: { kind: "autoincrement" } },
+					title: { kind: "string", default: { kind: "constant", value: "" } },
+					done: {
+						kind: "boolean",
+						default: { kind: "constant", value: false },
+					},
+					created_at: {
+						kind: "date",
+						default: {
+							kind: "sql",
+							sql: "strftime('%Y-%m-%dT%H:%M:%fZ')",
+						},
+					},
+					slug: {
+						kind: "string",
+						generated: { kind: "computed", sql: "lower(title)" },
+					},
+				},
+				primaryKey: ["id"],
+			}),
+		);
+		expect(sql).toBe(
+			"CREATE TABLE dummy (id INTEGER NOT NULL, title TEXT NOT NULL DEFAULT '', done INTEGER NOT NULL DEFAULT 0, created_at NUMERIC NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ')), slug TEXT NOT NULL GENERATED ALWAYS AS (lower(title)) VIRTUAL, PRIMARY KEY (id))",
+		);
+	});
+
+	it("encodes constant defaults with the column's codec", () => {
+		const [sql] = compileStatementToSql(
+			mkCreateTable({
+				name: "dummy",
+				columns: {
+					id: { kind: "number" },
+					at: {
+						kind: "date",
+						dateFormat: "epoch",
+						default: { kind: "constant", value: new Date(0) },
+					},
+					tag: { kind: "json", default: { kind: "constant", value: "none" } },
+				},
+				primaryKey: ["id"],
+			}),
+		);
+		expect(sql).toBe(
+			`CREATE TABLE dummy (id NUMERIC NOT NULL, at NUMERIC NOT NULL DEFAULT 0, tag TEXT NOT NULL DEFAULT '"none"', PRIMARY KEY (id))`,
+		);
+	});
+
+	it("renders the indexes declared by a schema", () => {
+		const statements = mkCreateIndexes(
+			{
+				name: "pages",
+				columns: {
+					id: { kind: "number" },
+					tenant: { kind: "string" },
+					slug: { kind: "string" },
+				},
+				primaryKey: ["id"],
+				uniqueIndexes: { slug: ["tenant", "slug"] },
+				indexes: { tenant: ["tenant"] },
+			},
+			{ ifNotExists: true },
+		);
+		expect(
+			statements.map((statement) => compileStatementToSql(statement)[0]),
+		).toEqual([
+			"CREATE UNIQUE INDEX IF NOT EXISTS pages_slug ON pages (tenant, slug)",
+			"CREATE INDEX IF NOT EXISTS pages_tenant ON pages (tenant)",
+		]);
+	});
+
+	it("leaves NOT NULL off nullable columns", () => {
+		const [sql] = compileStatementToSql(
+			mkCreateTable({
+				name: "dummy",
+				columns: {
+					foo: { kind: "number" },
+					bar: { kind: "string", nullable: true },
+				},
+				primaryKey: ["foo"],
+			}),
+		);
+		expect(sql).toBe(
+			"CREATE TABLE dummy (foo NUMERIC NOT NULL, bar TEXT, PRIMARY KEY (foo))",
+		);
+	});
+
+	it("renders the foreign keys declared by a schema", () => {
+		const [sql] = compileStatementToSql(
+			mkCreateTable({
+				name: "books",
+				columns: {
+					id: { kind: "number" },
+					author_id: { kind: "number" },
+				},
+				primaryKey: ["id"],
+				foreignKeys: [
+					{
+						columns: ["author_id"],
+						references: { table: "authors", columns: ["id"] },
+						onDelete: "cascade",
+						onUpdate: "set null",
+					},
+				],
+			}),
+		);
+		expect(sql).toBe(
+			"CREATE TABLE books (id NUMERIC NOT NULL, author_id NUMERIC NOT NULL, PRIMARY KEY (id), FOREIGN KEY (author_id) REFERENCES authors (id) ON DELETE CASCADE ON UPDATE SET NULL)",
+		);
+	});
 });
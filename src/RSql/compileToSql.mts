@@ -5,7 +5,7 @@ import {
 	type Parameterizable,
 	isParameterizable,
 } from "./Expression.mjs";
-import type { Statement } from "./RSql.mjs";
+import type { ColumnDefinition, Statement } from "./RSql.mjs";
 
 export type CompiledQuery<Context> = readonly [
 	sql: string,
@@ -23,10 +23,14 @@ function* renderExpressionToSql(
 		return `(${left} ${op} ${right})`;
 	}
 	if (expr.kind === "unOp") {
+		const operand = yield* renderExpressionToSql(expr.expression);
+		if (expr.operator === "IS NULL" || expr.operator === "IS NOT NULL") {
+			return `(${operand} ${expr.operator})`;
+		}
 		if (expr.operator === "NOT") {
-			const operand = yield* renderExpressionToSql(expr.expression);
 			return `(NOT ${operand})`;
 		}
+		return `(${expr.operator}${operand})`;
 	}
 	if (expr.kind === "column") {
 		return expr.name;
@@ -61,6 +65,42 @@ function* renderExpressionToSql(
 	assert.fail("Unsupported expression type in renderExpression");
 }
 
+export function renderColumnDefinition(col: ColumnDefinition): string {
+	let definition = `${col.name} ${col.type}`;
+	if (col.notNull) definition += " NOT NULL";
+	if (col.default) {
+		definition +=
+			col.default.kind === "constant"
+				? ` DEFAULT ${renderLiteral(col.default.value)}`
+				: ` DEFAULT (${col.default.sql})`;
+	}
+	if (col.generated) {
+		definition += ` GENERATED ALWAYS AS (${col.generated.sql}) ${col.generated.stored ? "STORED" : "VIRTUAL"}`;
+	}
+	// DDL can't take parameters, so the values are inlined as literals
+	if (col.values) {
+		const literals = col.values.map(renderLiteral);
+		definition += ` CHECK (${col.name} IN (${literals.join(", ")}))`;
+	}
+	return definition;
+}
+
+// Values are stored the way the default codecs store them
+export function renderLiteral(value: unknown): string {
+	if (value === null) return "NULL";
+	if (typeof value === "number" || typeof value === "bigint") {
+		return String(value);
+	}
+	if (typeof value === "boolean") return value ? "1" : "0";
+	const text =
+		typeof value === "string"
+			? value
+			: value instanceof Date
+				? value.toISOString()
+				: JSON.stringify(value);
+	return `'${text.replaceAll("'", "''")}'`;
+}
+
 export function* renderStatementToSql<Table extends TableSchemaBase>(
 	sqlAst: Statement<Table>,
 ): Generator<Parameterizable, string> {
@@ -72,11 +112,20 @@ export function* renderStatementToSql<Table extends TableSchemaBase>(
 			} else {
 				const cols: string[] = [];
 				for (const col of sqlAst.columns) {
-					cols.push(yield* renderExpressionToSql(col));
+					const colSql = yield* renderExpressionToSql(col);
+					cols.push(
+						sqlAst.joins && col.kind === "column"
+							? `${colSql} AS "${col.name}"`
+							: colSql,
+					);
 				}
 				selection = cols.join(", ");
 			}
 			let sql = `SELECT ${selection} FROM ${sqlAst.table}`;
+			for (const join of sqlAst.joins ?? []) {
+				const onSql = yield* renderExpressionToSql(join.on);
+				sql += ` ${join.kind.toUpperCase()} JOIN ${join.schema.name} AS ${join.as} ON ${onSql}`;
+			}
 			let paramCount = 0;
 			if (sqlAst.where) {
 				const whereSql = yield* renderExpressionToSql(sqlAst.where);
@@ -89,6 +138,14 @@ export function* renderStatementToSql<Table extends TableSchemaBase>(
 				sql += " LIMIT ?";
 				yield sqlAst.limit;
 				paramCount++;
+			} else if (sqlAst.offset !== undefined) {
+				// SQLite only takes OFFSET after a LIMIT, -1 being no limit
+				sql += " LIMIT -1";
+			}
+			if (sqlAst.offset !== undefined) {
+				sql += " OFFSET ?";
+				yield sqlAst.offset;
+				paramCount++;
 			}
 			return sql;
 		}
@@ -108,14 +165,22 @@ export function* renderStatementToSql<Table extends TableSchemaBase>(
 			sql += ")";
 
 			if (sqlAst.onConflict) {
-				sql += ` ON CONFLICT (${sqlAst.onConflict.columns.join(", ")}) DO UPDATE SET `;
-				const setKeys = Object.keys(sqlAst.onConflict.do.set);
-				sql += setKeys.map((k) => `${k} = ?`).join(", ");
-				for (const k of setKeys) {
-					// biome-ignore lint/style/noNonNullAssertion: <explanation>
-					yield sqlAst.onConflict.do.set[k as keyof Row<TableSchemaBase>]!;
+				sql += ` ON CONFLICT (${sqlAst.onConflict.columns.join(", ")})`;
+				const action = sqlAst.onConflict.do;
+				if (action.kind === "nothing") {
+					sql += " DO NOTHING";
+				} else {
+					const setKeys = Object.keys(action.set);
+					sql += ` DO UPDATE SET ${setKeys.map((k) => `${k} = ?`).join(", ")}`;
+					for (const k of setKeys) {
+						// biome-ignore lint/style/noNonNullAssertion: <explanation>
+						yield action.set[k as keyof Row<TableSchemaBase>]!;
+					}
 				}
 			}
+			if (sqlAst.returning) {
+				sql += ` RETURNING ${sqlAst.returning}`;
+			}
 
 			return sql;
 		}
@@ -145,6 +210,29 @@ export function* renderStatementToSql<Table extends TableSchemaBase>(
 			}
 			return sql;
 		}
+		case "createTable": {
+			const definitions = sqlAst.columns.map(renderColumnDefinition);
+			if (sqlAst.primaryKey.length > 0) {
+				definitions.push(`PRIMARY KEY (${sqlAst.primaryKey.join(", ")})`);
+			}
+			for (const foreignKey of sqlAst.foreignKeys ?? []) {
+				let definition = `FOREIGN KEY (${foreignKey.columns.join(", ")}) REFERENCES ${foreignKey.references.table} (${foreignKey.references.columns.join(", ")})`;
+				if (foreignKey.onDelete) {
+					definition += ` ON DELETE ${foreignKey.onDelete.toUpperCase()}`;
+				}
+				if (foreignKey.onUpdate) {
+					definition += ` ON UPDATE ${foreignKey.onUpdate.toUpperCase()}`;
+				}
+				definitions.push(definition);
+			}
+			const ifNotExists = sqlAst.ifNotExists ? " IF NOT EXISTS" : "";
+			return `CREATE TABLE${ifNotExists} ${sqlAst.table} (${definitions.join(", ")})`;
+		}
+		case "createIndex": {
+			const unique = sqlAst.unique ? " UNIQUE" : "";
+			const ifNotExists = sqlAst.ifNotExists ? " IF NOT EXISTS" : "";
+			return `CREATE${unique} INDEX${ifNotExists} ${sqlAst.name} ON ${sqlAst.table} (${sqlAst.columns.join(", ")})`;
+		}
 	}
 }
 
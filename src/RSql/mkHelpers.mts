@@ -1,31 +1,67 @@
+import assert from "assert";
 import {
 	mkColumn,
 	mkDelete,
 	mkEq,
 	mkInsert,
+	mkOr,
 	mkParameter,
 	mkPkColumns,
 	mkPkParams,
 	mkSelect,
+	mkTuple,
 } from "../RSql/mks.mjs";
 import type { PrimaryKeyRecord, Row } from "../types/TableSchema.mjs";
 import type { TableSchemaBase } from "../types/TableSchema.mjs";
 import type { Expression, Parameter, Parameterizable } from "./Expression.mjs";
 
-export function mkInsertRow<T extends TableSchemaBase>(schema: T) {
+// Columns a statement can write, leaving out the ones the database computes
+export function writableColumns<T extends TableSchemaBase>(
+	schema: T,
+): (string & keyof Row<T>)[] {
+	return Object.entries(schema.columns)
+		.filter(([, column]) => column.generated?.kind !== "computed")
+		.map(([col]) => col);
+}
+
+// Writable columns the row gives a value for
+export function providedColumns<T extends TableSchemaBase>(
+	schema: T,
+	row: object,
+): (string & keyof Row<T>)[] {
+	return writableColumns(schema).filter(
+		(col) => (row as Record<string, unknown>)[col] !== undefined,
+	);
+}
+
+/**
+ * Inserts the given columns, by default every writable one, and reads the
+ * stored row back.
+ */
+export function mkInsertRow<T extends TableSchemaBase>(
+	schema: T,
+	columns: readonly string[] = writableColumns(schema),
+) {
 	return mkInsert(
 		schema,
 		Object.fromEntries(
-			Object.keys(schema.columns).map((col) => [
+			columns.map((col) => [
 				col,
-				mkParameter((row: Row<T>) => row[col]),
+				mkParameter((row: Row<T>) => row[col as keyof Row<T>]),
 			]),
 		) as { [key in keyof Row<T>]: Parameterizable },
+		{ returning: "*" },
 	);
 }
 
-export function mkUpsertRow<T extends TableSchemaBase>(schema: T) {
-	const columns = Object.keys(schema.columns) as (keyof Row<T>)[];
+/**
+ * Inserts the given columns, by default every writable one, or updates the
+ * non-key ones among them, and reads the stored row back.
+ */
+export function mkUpsertRow<T extends TableSchemaBase>(
+	schema: T,
+	columns: readonly (string & keyof Row<T>)[] = writableColumns(schema),
+) {
 	const values = Object.fromEntries(
 		columns.map((col) => [col, mkParameter((row: Row<T>) => row[col])]),
 	) as Record<keyof Row<T>, Parameter>;
@@ -38,11 +74,13 @@ export function mkUpsertRow<T extends TableSchemaBase>(schema: T) {
 	return mkInsert(schema, values, {
 		onConflict: {
 			columns: schema.primaryKey.map((pk) => pk.toString()),
-			do: {
-				kind: "update" as const,
-				set,
-			},
+			// Nothing to update when only key columns are written
+			do:
+				Object.keys(set).length === 0
+					? { kind: "nothing" as const }
+					: { kind: "update" as const, set },
 		},
+		returning: "*",
 	});
 }
 
@@ -66,3 +104,85 @@ export function mkFindUnique<T extends TableSchemaBase>(schema: T) {
 		},
 	);
 }
+
+// Selects the rows holding the values of the columns, a context keyed by column
+export function mkFindBy<T extends TableSchemaBase>(
+	schema: T,
+	columns: readonly string[],
+) {
+	return mkSelect<T>(
+		schema,
+		Object.keys(schema.columns).map((col) => mkColumn(col)),
+		{
+			where: mkEq(
+				mkTuple(columns.map((col) => mkColumn(col))),
+				mkTuple(
+					columns.map((col) =>
+						mkParameter((values: Record<string, unknown>) => values[col]),
+					),
+				),
+			),
+		},
+	);
+}
+
+/**
+ * Selects the rows of a relation of the rows with the given `count` keys, with
+ * their columns qualified by the relation's name. Each comes with the key and
+ * the relation's columns of the row it belongs to, qualified by the table's
+ * name, and a row without related rows comes back once with NULLs for them.
+ */
+export function mkFindRelated<T extends TableSchemaBase>(
+	schema: T,
+	name: string,
+	count: number,
+) {
+	const relation = schema.relations?.[name];
+	assert(relation, `Unknown relation ${schema.name}.${name}`);
+	const qualify = (table: string, columns: readonly string[]) =>
+		columns.map((col) => mkColumn(`${table}.${col}`));
+	const owner = [...new Set([...schema.primaryKey, ...relation.columns])];
+	const keyMatches = Array.from({ length: count }, (_, i) =>
+		mkEq(
+			mkTuple(qualify(schema.name, schema.primaryKey)),
+			// biome-ignore lint/style/noNonNullAssertion: <explanation>
+			mkPkParams(schema, (keys: PrimaryKeyRecord<T>[]) => keys[i]!),
+		),
+	);
+
+	return mkSelect<T>(
+		schema,
+		[
+			...qualify(schema.name, owner),
+			...qualify(name, Object.keys(relation.schema.columns)),
+		],
+		{
+			joins: [
+				{
+					kind: "left",
+					schema: relation.schema,
+					as: name,
+					on: mkEq(
+						mkTuple(qualify(name, relation.references)),
+						mkTuple(qualify(schema.name, relation.columns)),
+					),
+				},
+			],
+			where: mkAnyOf(keyMatches),
+			orderBy: relation.schema.primaryKey.map((pk) => ({
+				column: `${name}.${pk}`,
+				direction: "asc" as const,
+			})),
+		},
+	);
+}
+
+// ORs the expressions as a balanced tree, keeping it shallow for SQLite
+function mkAnyOf(
+	exprs: Expression<TableSchemaBase>[],
+): Expression<TableSchemaBase> {
+	assert(exprs.length > 0, "Nothing to match");
+	if (exprs.length === 1) return exprs[0] as Expression<TableSchemaBase>;
+	const half = Math.ceil(exprs.length / 2);
+	return mkOr(mkAnyOf(exprs.slice(0, half)), mkAnyOf(exprs.slice(half)));
+}
@@ -1,11 +1,24 @@
+import { columnCodecOf } from "../core/codecs.mjs";
 import type {
-	PrimaryKey,
+	ColumnName,
+	ColumnType,
 	PrimaryKeyRecord,
 	Row,
+	ScalarToType,
 	TableSchemaBase,
 } from "../types/TableSchema.mjs";
 import type { Expression, Parameter, Parameterizable } from "./Expression.mjs";
-import type { Delete, Insert, OrderBy, Select, Update } from "./RSql.mjs";
+import type {
+	ColumnDefinition,
+	CreateIndex,
+	CreateTable,
+	Delete,
+	Insert,
+	Join,
+	OrderBy,
+	Select,
+	Update,
+} from "./RSql.mjs";
 
 export function mkInsert<Table extends TableSchemaBase>(
 	table: Table,
@@ -13,11 +26,14 @@ export function mkInsert<Table extends TableSchemaBase>(
 	options?: {
 		onConflict?: {
 			columns: (keyof Row<Table>)[];
-			do: {
-				kind: "update";
-				set: Partial<Record<keyof Row<Table>, Parameterizable>>;
-			};
+			do:
+				| {
+						kind: "update";
+						set: Partial<Record<keyof Row<Table>, Parameterizable>>;
+				  }
+				| { kind: "nothing" };
 		};
+		returning?: "*";
 	},
 ): Insert<Table> {
 	return {
@@ -25,6 +41,7 @@ export function mkInsert<Table extends TableSchemaBase>(
 		table: table.name,
 		values,
 		onConflict: options?.onConflict,
+		returning: options?.returning,
 	};
 }
 
@@ -56,9 +73,11 @@ export function mkSelect<Table extends TableSchemaBase>(
 	table: Table,
 	columns: "*" | Expression<Table>[],
 	options?: {
+		joins?: Join[];
 		where?: Expression<Table>;
 		orderBy?: OrderBy[];
 		limit?: Parameterizable;
+		offset?: Parameterizable;
 	},
 ): Select<TableSchemaBase> {
 	return {
@@ -133,6 +152,81 @@ export function mkGTE(
 	};
 }
 
+/**
+ * Compares a column with a constant, which must be a value of the column.
+ * For an `enum` column that is one of its literals.
+ */
+export function mkCompare<
+	Table extends TableSchemaBase,
+	Name extends ColumnName<Table>,
+>(
+	_table: Table,
+	column: Name,
+	operator: "=" | "!=" | "<" | "<=" | ">" | ">=",
+	value: ScalarToType<Table["columns"][Name]>,
+): Expression<Table> {
+	return {
+		kind: "binOp",
+		operator,
+		left: { kind: "column", name: column },
+		right: { kind: "constant", value },
+	};
+}
+
+export function mkIs(
+	left: Expression<TableSchemaBase>,
+	right: Expression<TableSchemaBase>,
+): Expression<TableSchemaBase> {
+	return {
+		kind: "binOp",
+		operator: "IS",
+		left,
+		right,
+	};
+}
+
+export function mkIsNull(
+	expression: Expression<TableSchemaBase>,
+): Expression<TableSchemaBase> {
+	return {
+		kind: "unOp",
+		operator: "IS NULL",
+		expression,
+	};
+}
+export function mkIsNotNull(
+	expression: Expression<TableSchemaBase>,
+): Expression<TableSchemaBase> {
+	return {
+		kind: "unOp",
+		operator: "IS NOT NULL",
+		expression,
+	};
+}
+
+export function mkAnd(
+	left: Expression<TableSchemaBase>,
+	right: Expression<TableSchemaBase>,
+): Expression<TableSchemaBase> {
+	return {
+		kind: "binOp",
+		operator: "AND",
+		left,
+		right,
+	};
+}
+export function mkOr(
+	left: Expression<TableSchemaBase>,
+	right: Expression<TableSchemaBase>,
+): Expression<TableSchemaBase> {
+	return {
+		kind: "binOp",
+		operator: "OR",
+		left,
+		right,
+	};
+}
+
 export function mkParameter<Context>(
 	getValue: (ctx: Context) => unknown,
 ): Parameter {
@@ -171,3 +265,91 @@ export function mkPkParams<Table extends TableSchemaBase, Context>(
 		})),
 	};
 }
+
+export function mkColumnDefinition(
+	name: string,
+	column: ColumnType,
+): ColumnDefinition {
+	// An INTEGER primary key aliases the rowid, which SQLite assigns itself
+	const type =
+		column.generated?.kind === "autoincrement"
+			? "INTEGER"
+			: (
+					{
+						string: "TEXT",
+						number: "NUMERIC",
+						boolean: "INTEGER",
+						date: "NUMERIC",
+						json: "TEXT",
+						bigint: "INTEGER",
+						enum: "TEXT",
+					} as const
+				)[column.kind];
+	return {
+		name,
+		type,
+		notNull: !column.nullable,
+		...(column.kind === "enum" && { values: column.values ?? [] }),
+		...(column.default && {
+			// A constant is stored as the column's codec would store a written value
+			default:
+				column.default.kind === "constant"
+					? {
+							kind: "constant",
+							value:
+								column.default.value === null
+									? null
+									: columnCodecOf(column).encode(column.default.value),
+						}
+					: column.default,
+		}),
+		...(column.generated?.kind === "computed" && {
+			generated: {
+				sql: column.generated.sql,
+				stored: column.generated.stored,
+			},
+		}),
+	};
+}
+
+export function mkCreateTable<Table extends TableSchemaBase>(
+	table: Table,
+	options?: { ifNotExists?: boolean },
+): CreateTable {
+	return {
+		kind: "createTable",
+		table: table.name,
+		columns: Object.entries(table.columns).map(([name, column]) =>
+			mkColumnDefinition(name, column),
+		),
+		primaryKey: table.primaryKey,
+		...(table.foreignKeys && { foreignKeys: table.foreignKeys }),
+		...options,
+	};
+}
+
+/**
+ * Index names are global to a database, so they are prefixed with the table
+ * name.
+ */
+export function mkCreateIndexes<Table extends TableSchemaBase>(
+	table: Table,
+	options?: { ifNotExists?: boolean },
+): CreateIndex[] {
+	const mkIndexes = (
+		indexes: Record<string, readonly string[]> | undefined,
+		unique: boolean,
+	): CreateIndex[] =>
+		Object.entries(indexes ?? {}).map(([name, columns]) => ({
+			kind: "createIndex",
+			name: `${table.name}_${name}`,
+			table: table.name,
+			columns,
+			unique,
+			...options,
+		}));
+	return [
+		...mkIndexes(table.uniqueIndexes, true),
+		...mkIndexes(table.indexes, false),
+	];
+}
@@ -1,4 +1,4 @@
-import type { Page, PageInit } from "./Page.mjs";
+import type { Page, PageInit, PreparedFindMany } from "./Page.mjs";
 import type { Delete, Insert, Select, Update } from "./RSql/RSql.mjs";
 import type {
 	PreparedMutation,
@@ -6,9 +6,13 @@ import type {
 	PreparedQueryOne,
 } from "./types/PreparedStatement.mjs";
 import type {
+	InsertRow,
 	PrimaryKey,
 	PrimaryKeyRecord,
 	Row,
+	UniqueIndexName,
+	UniqueIndexRecord,
+	UpsertRow,
 } from "./types/TableSchema.mjs";
 import type { TableSchemaBase } from "./types/TableSchema.mjs";
 
@@ -19,17 +23,25 @@ export type Storage<T extends TableSchemaBase> = ReadableStorage<T> &
 	};
 
 export type ReadableStorage<T extends TableSchemaBase> = {
+	// Also runs inserts that read the stored row back with RETURNING
 	prepareQueryOne<Context, Row>(
-		query: Select<T>,
+		query: Select<T> | Insert<T>,
 	): PreparedQueryOne<Context, Row>;
 	prepareQueryAll<Context, Row>(
 		query: Select<T>,
 	): PreparedQueryAll<Context, Row>;
 
 	findUnique(key: PrimaryKeyRecord<T>): Row<T> | null;
+	findUniqueBy<I extends UniqueIndexName<T>>(
+		indexName: I,
+		values: UniqueIndexRecord<T, I>,
+	): Row<T> | null;
 	findMany<Cursor extends PrimaryKeyRecord<T>>(
 		pageInput: PageInit<T, Cursor>,
 	): Page<T, Cursor>;
+	prepareFindMany<Cursor extends PrimaryKeyRecord<T>>(
+		options: Pick<PageInit<T, Cursor>, "filter" | "orderBy" | "select">,
+	): PreparedFindMany<T, Cursor>;
 };
 
 export type WritableStorage<T extends TableSchemaBase> = {
@@ -37,8 +49,9 @@ export type WritableStorage<T extends TableSchemaBase> = {
 		mutation: Insert<T> | Update<T> | Delete<T>,
 	): PreparedMutation<Context>;
 
-	insert(row: Row<T>): void;
-	upsert(row: Row<T>): void;
+	// Returns the stored row, with defaults and generated columns filled in
+	insert(row: InsertRow<T>): Row<T>;
+	upsert(row: UpsertRow<T>): void;
 	update(
 		key: PrimaryKeyRecord<T>,
 		partialRow: Partial<Omit<Row<T>, PrimaryKey<T>[number]>>,
@@ -55,7 +68,7 @@ export interface TransactionalStorage<T extends TableSchemaBase> {
 }
 
 export type Mutation<T extends TableSchemaBase> =
-	| { type: "insert"; row: Row<T> }
-	| { type: "upsert"; row: Row<T> }
+	| { type: "insert"; row: InsertRow<T> }
+	| { type: "upsert"; row: UpsertRow<T> }
 	| { type: "update"; key: PrimaryKeyRecord<T>; partialRow: Partial<Row<T>> }
 	| { type: "delete"; key: PrimaryKeyRecord<T> };
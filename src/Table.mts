@@ -1,23 +1,39 @@
 import assert from "assert";
+import { isDeepStrictEqual } from "node:util";
 import ManyKeyMap from "many-keys-map";
 import {
-	EMPTY,
 	type Observable,
 	Subject,
 	concatAll,
+	filter,
 	map,
-	mergeMap,
-	of,
+	merge,
 	share,
 	tap,
 	timer,
 } from "rxjs";
-import type { Page, PageDelta, PageEvent, PageInit } from "./Page.mjs";
+import {
+	type OffsetPageInit,
+	type Page,
+	type PageDelta,
+	type PageEvent,
+	type PageInit,
+	type RangeWindow,
+	type RowRange,
+	compareByOrder,
+	loadOffsetPage,
+	selectedColumns,
+	withKeyTiebreak,
+} from "./Page.mjs";
 import type { Parameter } from "./RSql/Expression.mjs";
 import {
-	mkDelete,
+	mkDeleteRow,
+	mkFindRelated,
+	mkUpsertRow,
+	providedColumns,
+} from "./RSql/mkHelpers.mjs";
+import {
 	mkEq,
-	mkInsert,
 	mkParameter,
 	mkPkColumns,
 	mkPkParams,
@@ -25,21 +41,96 @@ import {
 } from "./RSql/mks.mjs";
 import type { Storage } from "./Storage.mjs";
 import { type Dynamic, createDynamic } from "./core/Dynamic.mjs";
+import { TransactionScope } from "./core/TransactionScope.mjs";
+import {
+	type RowValidator,
+	compileRowValidator,
+} from "./core/rowValidation.mjs";
+import type {
+	PreparedMutation,
+	PreparedQueryAll,
+	PreparedQueryOne,
+} from "./types/PreparedStatement.mjs";
 import type {
 	ReadableTable,
 	TableEvent,
 	WritableTable,
 } from "./types/TableSchema.mjs";
 import type {
+	CursorWith,
+	FindOptions,
+	InsertRow,
 	PrimaryKey,
 	PrimaryKeyRecord,
 	PrimaryKeyTuple,
+	Relation,
+	RelationName,
 	Row,
+	RowWith,
+	UniqueIndexName,
+	UniqueIndexRecord,
+	UpsertRow,
 } from "./types/TableSchema.mjs";
 import type { TableSchemaBase } from "./types/TableSchema.mjs";
 import { partitionByKey } from "./util/partitionByKey.mjs";
 import { rsqlExpressionToFilterFn } from "./util/rsqlExpressionToFilterFn.mjs";
-import type { PreparedMutation } from "./types/PreparedStatement.mjs";
+import { eqTuple } from "./util/tuple.mjs";
+
+export type TableOptions = {
+	/**
+	 * Shares transactions with other tables, see `Database`.
+	 */
+	transactionScope?: TransactionScope;
+	/**
+	 * Checks rows against the schema before writing them, on by default.
+	 * Turning it off saves the checks once the writes are known to be valid.
+	 */
+	validateRows?: boolean;
+	/**
+	 * Called before a row is updated or deleted. The returned callback runs
+	 * once the write succeeded, see how `Database` follows foreign keys.
+	 */
+	onWrite?: (write: RowWrite) => (() => void) | undefined;
+	/**
+	 * Finds the tables the schema's relations refer to, by name. Reads that
+	 * include a relation need it, `Database` provides it.
+	 */
+	resolveTable?: (name: string) => Table<TableSchemaBase> | undefined;
+};
+
+export type RowWrite =
+	| {
+			kind: "update";
+			before: Record<string, unknown>;
+			changes: Record<string, unknown>;
+	  }
+	| { kind: "delete"; before: Record<string, unknown> };
+
+// Keys up to which the relations of a page are read in one query
+const relatedBatchSize = 256;
+
+/**
+ * The relations read for a row, and the values of its columns each relation
+ * follows, which tell the changes to related tables that concern the row.
+ */
+type IncludedRead = {
+	included: Record<string, unknown>;
+	links: Record<string, unknown[]>;
+};
+
+type RelatedChange = [relation: string, events: TableEvent<TableSchemaBase>[]];
+
+// The images of a row an event carries, before and after the change
+function imagesOf(e: TableEvent<TableSchemaBase>): Record<string, unknown>[] {
+	switch (e.kind) {
+		case "insert":
+			return [e.after ?? e.row];
+		case "update":
+			return [e.before, e.after].filter((image) => image !== undefined);
+		case "delete":
+			return e.before ? [e.before] : [];
+	}
+}
 
 export class Table<T extends TableSchemaBase>
 	implements ReadableTable<T>, WritableTable<T>
@@ -47,37 +138,79 @@ export class Table<T extends TableSchemaBase>
 	constructor(
 		private tableSchema: T,
 		storage: Storage<T>,
+		options: TableOptions = {},
 	) {
 		this.storage = storage;
+		this.transactionScope =
+			options.transactionScope ??
+			(storage.transaction &&
+				new TransactionScope((fn) =>
+					// biome-ignore lint/style/noNonNullAssertion: <explanation>
+					this.storage.transaction!(fn),
+				));
+
+		this.onWrite = options.onWrite;
+		this.resolveTable = options.resolveTable;
+		if (options.validateRows ?? true) {
+			this.validateRow = compileRowValidator(this.tableSchema);
+		}
 
-		this.preparedInsertRow = this.storage.prepareMutation<Row<T>>(
-			mkInsert(
-				this.tableSchema,
-				Object.fromEntries(
-					Object.entries(this.tableSchema.columns).map(
-						([col]) =>
-							[
-								col,
-								mkParameter((row: Row<T>) => row[col as keyof Row<T>]),
-							] as const,
-					),
-				) as Record<keyof Row<T>, Parameter>,
-			),
-		);
 		this.preparedDeleteRow = this.storage.prepareMutation<PrimaryKeyRecord<T>>(
-			mkDelete(this.tableSchema, mkPkColumns(this.tableSchema)),
+			mkDeleteRow(this.tableSchema),
 		);
 	}
 
-	private preparedInsertRow: PreparedMutation<Row<T>>;
+	// One statement per set of written columns, as left out ones are kept
+	private preparedUpsertRows = new Map<
+		string,
+		PreparedQueryOne<UpsertRow<T>, Row<T>>
+	>();
 	private preparedDeleteRow: PreparedMutation<PrimaryKeyRecord<T>>;
 
-	insert(row: Row<T>): void {
-		this.preparedInsertRow(row);
-		this.events.next([{ kind: "insert", row }]);
+	/**
+	 * Inserts a row and returns it as stored, with defaults and generated
+	 * columns filled in.
+	 */
+	insert(row: InsertRow<T>): Row<T> {
+		this.validateRow?.(row);
+		const stored = this.storage.insert(row);
+		this.emit([{ kind: "insert", row: stored, after: stored }]);
+		return stored;
 	}
-	upsert(row: Row<T>): void {
-		assert.fail("Not implemented");
+	upsert(row: UpsertRow<T>): void {
+		this.validateRow?.(row);
+		const key = this.getKeyRecord(row);
+		// Read before writing so we can tell whether the row is new
+		const existing = this.storage.findUnique(key);
+		const cascaded =
+			existing &&
+			this.onWrite?.({ kind: "update", before: existing, changes: row });
+		const columns = providedColumns(this.tableSchema, row);
+		let preparedUpsertRow = this.preparedUpsertRows.get(columns.join());
+		if (preparedUpsertRow === undefined) {
+			preparedUpsertRow = this.storage.prepareQueryOne<UpsertRow<T>, Row<T>>(
+				mkUpsertRow(this.tableSchema, columns),
+			);
+			this.preparedUpsertRows.set(columns.join(), preparedUpsertRow);
+		}
+		// DO NOTHING returns no row, so read the existing one back
+		const stored =
+			preparedUpsertRow(row) ??
+			// biome-ignore lint/style/noNonNullAssertion: <explanation>
+			this.storage.findUnique(key)!;
+		if (existing === null) {
+			this.emit([{ kind: "insert", row: stored, after: stored }]);
+		} else {
+			const changes = Object.fromEntries(
+				Object.entries(stored).filter(
+					([col]) => !this.tableSchema.primaryKey.includes(col),
+				),
+			) as Partial<Omit<Row<T>, PrimaryKey<T>[number]>>;
+			this.emit([
+				{ kind: "update", key, row: changes, before: existing, after: stored },
+			]);
+			cascaded?.();
+		}
 	}
 	update(
 		key: PrimaryKeyRecord<T>,
@@ -107,15 +240,97 @@ export class Table<T extends TableSchemaBase>
 				),
 			),
 		);
+		this.validateRow?.(changes, true);
+		const before = this.storage.findUnique(key);
+		const cascaded =
+			before && this.onWrite?.({ kind: "update", before, changes });
 		preparedUpdateRow({ key, changes: changes });
-		this.events.next([{ kind: "update", key, row: changes }]);
+		// Read back, as computed columns may follow the changes
+		const after = before && this.storage.findUnique(key);
+		this.emit([
+			{
+				kind: "update",
+				key,
+				row: changes,
+				...(before && after && { before, after }),
+			},
+		]);
+		cascaded?.();
 	}
 	delete(key: PrimaryKeyRecord<T>): void {
+		const before = this.storage.findUnique(key);
+		const cascaded = before && this.onWrite?.({ kind: "delete", before });
 		this.preparedDeleteRow(key);
-		this.events.next([{ kind: "delete", key }]);
+		this.emit([{ kind: "delete", key, ...(before && { before }) }]);
+		cascaded?.();
+	}
+
+	/**
+	 * Publishes events of writes the table didn't make itself, like the ones
+	 * the database makes following a foreign key.
+	 */
+	publish(events: TableEvent<T>[]): void {
+		if (events.length > 0) this.emit(events);
+	}
+
+	/**
+	 * Runs `fn` inside a storage transaction.
+	 * Events of the mutations made in `fn` are emitted together once the
+	 * transaction commits, and dropped if it rolls back.
+	 */
+	transaction<R>(fn: () => R): R {
+		assert(this.transactionScope, "The storage doesn't support transactions");
+		return this.transactionScope.run(fn);
+	}
+
+	/**
+	 * Batches of events, one per mutation or committed transaction.
+	 */
+	get changes(): Observable<TableEvent<T>[]> {
+		return this.events.asObservable();
+	}
+
+	/**
+	 * The row with the given key, with the relations of `include`. Included rows
+	 * are read again whenever the row or a related table changes.
+	 */
+	findUnique<I extends RelationName<T> = never>(
+		key: PrimaryKeyRecord<T>,
+		options: FindOptions<T, I> = {},
+	): Dynamic<RowWith<T, I> | null, void> {
+		const row = this.findRow(key);
+		const include = options.include ?? [];
+		if (include.length === 0) {
+			return row as unknown as Dynamic<RowWith<T, I> | null, void>;
+		}
+
+		const withIncluded = (current: Row<T> | null) =>
+			current &&
+			({
+				...current,
+				// biome-ignore lint/style/noNonNullAssertion: <explanation>
+				...this.readIncluded([key], include)[0]!.included,
+			} as RowWith<T, I>);
+		let value = withIncluded(row.read());
+		return createDynamic<RowWith<T, I> | null, void>(
+			value,
+			merge(row.updated, this.relatedChanges(include)).pipe(
+				map(() => withIncluded(row.read())),
+				filter((next) => !isDeepStrictEqual(next, value)),
+				// biome-ignore lint/suspicious/noConfusingVoidType: <explanation>
+				map((next): [void, RowWith<T, I> | null] => {
+					value = next;
+					return [void 0, value];
+				}),
+				share({
+					resetOnRefCountZero: () =>
+						timer(10 * 1000).pipe(tap(() => row.disconnect())),
+				}),
+			),
+		);
 	}
 
-	findUnique(key: PrimaryKeyRecord<T>): Dynamic<Row<T> | null, void> {
+	private findRow(key: PrimaryKeyRecord<T>): Dynamic<Row<T> | null, void> {
 		const keyTuple = this.tableSchema.primaryKey.map(
 			(pk: PrimaryKey<T>[number]) => key[pk],
 		) as unknown as PrimaryKeyTuple<T>;
@@ -123,7 +338,7 @@ export class Table<T extends TableSchemaBase>
 		let dynamic = this.rows.get(keyTuple);
 		if (dynamic) return dynamic.fork();
 
-		const row: Row<T> | null = this.storage.findUnique(key);
+		let row: Row<T> | null = this.storage.findUnique(key);
 
 		dynamic = createDynamic<Row<T> | null, void>(
 			row,
@@ -131,14 +346,16 @@ export class Table<T extends TableSchemaBase>
 				// biome-ignore lint/suspicious/noConfusingVoidType: <explanation>
 				map((e): [void, Row<T> | null] => {
 					if (e.kind === "insert") {
-						return [void 0, e.row] as const;
+						row = e.row;
+						return [void 0, row] as const;
 					}
 					if (e.kind === "update") {
-						// biome-ignore lint/style/noNonNullAssertion: <explanation>
-						return [void 0, { ...row!, ...e.row }] as const;
+						row = e.after ?? (row && { ...row, ...e.row });
+						return [void 0, row] as const;
 					}
 					if (e.kind === "delete") {
-						return [void 0, null] as const;
+						row = null;
+						return [void 0, row] as const;
 					}
 					throw new Error("Invalid event kind");
 				}),
@@ -155,51 +372,380 @@ export class Table<T extends TableSchemaBase>
 		this.rows.set(keyTuple, dynamic);
 		return dynamic;
 	}
-	findMany<Cursor extends PrimaryKeyRecord<T>>(
+	/**
+	 * Like `findUnique`, but looks the row up by a unique index.
+	 * The dynamic follows whichever row holds the values, so an update that
+	 * changes an indexed column can make it switch rows or become null.
+	 */
+	findUniqueBy<I extends UniqueIndexName<T>>(
+		indexName: I,
+		values: UniqueIndexRecord<T, I>,
+	): Dynamic<Row<T> | null, void> {
+		const columns = this.tableSchema.uniqueIndexes?.[indexName];
+		assert(columns, `Unknown unique index ${indexName}`);
+		const valueTuple = columns.map(
+			(col) => (values as Record<string, unknown>)[col],
+		);
+		const cacheKey = [indexName, ...valueTuple];
+
+		let dynamic = this.rowsByIndex.get(cacheKey);
+		if (dynamic) return dynamic.fork();
+
+		let row: Row<T> | null = this.storage.findUniqueBy(indexName, values);
+		const holdsValues = (candidate: Row<T>) =>
+			eqTuple(
+				columns.map((col) => candidate[col]),
+				valueTuple,
+			);
+		const isCurrent = (key: PrimaryKeyRecord<T>) =>
+			row !== null &&
+			eqTuple(
+				this.tableSchema.primaryKey.map((pk) => key[pk]),
+				this.tableSchema.primaryKey.map((pk) => row?.[pk]),
+			);
+
+		dynamic = createDynamic<Row<T> | null, void>(
+			row,
+			this.events.pipe(
+				concatAll(),
+				// undefined when the event doesn't concern the lookup
+				map((e): Row<T> | null | undefined => {
+					switch (e.kind) {
+						case "insert": {
+							const after = e.after ?? e.row;
+							return holdsValues(after) ? after : undefined;
+						}
+						case "update": {
+							if (isCurrent(e.key)) {
+								const after = e.after ?? { ...(row as Row<T>), ...e.row };
+								return holdsValues(after) ? after : null;
+							}
+							if (e.after) return holdsValues(e.after) ? e.after : undefined;
+							// Without an after image only a read tells if the row took the values
+							return columns.some((col) => col in e.row)
+								? this.storage.findUniqueBy(indexName, values)
+								: undefined;
+						}
+						case "delete":
+							return isCurrent(e.key) ? null : undefined;
+					}
+				}),
+				filter((next) => next !== undefined),
+				// biome-ignore lint/suspicious/noConfusingVoidType: <explanation>
+				map((next): [void, Row<T> | null] => {
+					row = next;
+					return [void 0, row];
+				}),
+				share({
+					resetOnRefCountZero: () =>
+						timer(10 * 1000).pipe(
+							tap(() => {
+								this.rowsByIndex.delete(cacheKey);
+							}),
+						),
+				}),
+			),
+		);
+		this.rowsByIndex.set(cacheKey, dynamic);
+		return dynamic;
+	}
+	/**
+	 * A live page of rows, with the relations of `include` added to each.
+	 */
+	findMany<
+		Cursor extends PrimaryKeyRecord<T>,
+		I extends RelationName<T> = never,
+	>(
 		pageInput: PageInit<T, Cursor>,
 		pageEvent: Observable<PageEvent>,
-	): Dynamic<Page<T, Cursor>, PageDelta<T>> {
-		const page = this.storage.findMany(pageInput);
-		const filter = pageInput.filter
+		options: FindOptions<T, I> = {},
+	): Dynamic<
+		Page<T, CursorWith<T, Cursor, I>>,
+		PageDelta<T, CursorWith<T, Cursor, I>>
+	> {
+		const page = this.findPage(pageInput, pageEvent);
+		const include = options.include ?? [];
+		if (include.length === 0) {
+			return page as unknown as Dynamic<
+				Page<T, CursorWith<T, Cursor, I>>,
+				PageDelta<T, CursorWith<T, Cursor, I>>
+			>;
+		}
+		return this.includeInPage(page, include);
+	}
+
+	private findPage<Cursor extends PrimaryKeyRecord<T>>(
+		pageInput: PageInit<T, Cursor>,
+		pageEvent: Observable<PageEvent>,
+	): Dynamic<Page<T, Cursor>, PageDelta<T, Cursor>> {
+		if (pageInput.kind === "offset") {
+			return this.findOffsetPage(pageInput, pageEvent);
+		}
+		const orderBy = withKeyTiebreak(this.tableSchema, pageInput.orderBy);
+		const initialPage = this.storage.findMany(pageInput);
+		const queries = this.storage.prepareFindMany<Cursor>(pageInput);
+		const matches = pageInput.filter
 			? rsqlExpressionToFilterFn(pageInput.filter)
 			: () => true;
+		const columns = selectedColumns(this.tableSchema, {
+			orderBy,
+			select: pageInput.select,
+		});
+		const toCursor = (row: Row<T>) =>
+			Object.fromEntries(
+				columns.map((col) => [col, row[col as keyof Row<T>]] as const),
+			) as unknown as Cursor;
 
-		return createDynamic<Page<T, Cursor>, PageDelta<T>>(
-			page,
-			this.events.pipe(
-				concatAll(),
-				mergeMap((e): Observable<[PageDelta<T>, Page<T, Cursor>]> => {
-					const row = this.getRow(this.getKeyTuple(e));
-					if (!filter(row as Row<T>)) return EMPTY;
-					if (e.kind === "insert") {
-						return of([
-							[{ kind: "add", row: e.row }],
-							{
-								rows: page.rows,
-								rowCount: page.rowCount,
-								endCursor: page.endCursor,
-								startCursor: page.startCursor,
-								itemBeforeCount: page.itemBeforeCount,
-								itemAfterCount: page.itemAfterCount,
-							},
-						]);
-					}
-					if (e.kind === "delete") {
-						return of([
-							[{ kind: "remove", key: e.key }],
-							{
-								rows: page.rows,
-								rowCount: page.rowCount,
-								endCursor: page.endCursor,
-								startCursor: page.startCursor,
-								itemBeforeCount: page.itemBeforeCount,
-								itemAfterCount: page.itemAfterCount,
-							},
-						]);
-					}
+		const compare = (a: Cursor, b: Cursor) => compareByOrder(orderBy, a, b);
+		const isSameRow = (cursor: PrimaryKeyRecord<T>, key: PrimaryKeyRecord<T>) =>
+			this.tableSchema.primaryKey.every(
+				(pk: PrimaryKey<T>[number]) => cursor[pk] === key[pk],
+			);
 
-					return EMPTY;
-				}),
+		// An empty page keeps its position as a boundary cursor
+		const boundary =
+			pageInput.kind === "forward"
+				? pageInput.after
+				: pageInput.kind === "backward"
+					? pageInput.before
+					: pageInput.anchor;
+		let page: Page<T, Cursor> & { rows: Cursor[] } = {
+			...initialPage,
+			rows: Array.from(initialPage.rows),
+			startCursor: initialPage.startCursor ?? boundary,
+			endCursor: initialPage.endCursor ?? boundary,
+		};
+
+		const locate = (
+			current: typeof page,
+			cursor: Cursor,
+		): "before" | "inside" | "after" => {
+			const startCursor = current.startCursor as Cursor | undefined;
+			const endCursor = current.endCursor as Cursor | undefined;
+			// A page short of its size with no rows on a side, and no cursor of
+			// its own there, is open on that side until it fills up
+			const size =
+				pageInput.kind === "forward"
+					? pageInput.first
+					: pageInput.kind === "backward"
+						? pageInput.last
+						: undefined;
+			const isShort = size !== undefined && current.rows.length < size;
+			const isOpenAtStart =
+				isShort &&
+				current.itemBeforeCount === 0 &&
+				!(pageInput.kind === "forward" && pageInput.after !== undefined);
+			const isOpenAtEnd =
+				isShort &&
+				current.itemAfterCount === 0 &&
+				!(pageInput.kind === "backward" && pageInput.before !== undefined);
+			if (startCursor !== undefined && compare(cursor, startCursor) < 0)
+				return isOpenAtStart ? "inside" : "before";
+			if (endCursor !== undefined && compare(cursor, endCursor) > 0)
+				return isOpenAtEnd ? "inside" : "after";
+			if (
+				current.rows.length > 0 ||
+				startCursor !== undefined ||
+				isOpenAtStart ||
+				isOpenAtEnd
+			)
+				return "inside";
+			return current.itemBeforeCount === 0 ? "after" : "before";
+		};
+
+		const applyTableEvents = (
+			events: TableEvent<T>[],
+		): [PageDelta<T, Cursor>, Page<T, Cursor>] | undefined => {
+			const next = { ...page, rows: [...page.rows] };
+			const delta: PageDelta<T, Cursor> = [];
+			// Set when a changed row can't be located, so the counts are re-read
+			let stale = false;
+
+			// Puts a matching row into the page if it falls between the cursors,
+			// otherwise counts it on the side it falls on
+			const place = (cursor: Cursor): number => {
+				next.rowCount++;
+				const position = locate(next, cursor);
+				if (position === "before") {
+					next.itemBeforeCount++;
+					return -1;
+				}
+				if (position === "after") {
+					next.itemAfterCount++;
+					return -1;
+				}
+				const index = next.rows.findIndex((row) => compare(row, cursor) > 0);
+				const at = index === -1 ? next.rows.length : index;
+				next.rows.splice(at, 0, cursor);
+				// A row placed past a cursor, on an open side, moves it
+				const startCursor = next.startCursor as Cursor | undefined;
+				const endCursor = next.endCursor as Cursor | undefined;
+				if (startCursor === undefined || compare(cursor, startCursor) < 0)
+					next.startCursor = cursor;
+				if (endCursor === undefined || compare(cursor, endCursor) > 0)
+					next.endCursor = cursor;
+				return at;
+			};
+			// Bounds are kept while a row is taken out, so that an updated row
+			// is placed against the page it was taken from
+			const remove = (index: number): Cursor => {
+				const [removed] = next.rows.splice(index, 1) as [Cursor];
+				next.rowCount--;
+				return removed;
+			};
+			const syncCursors = (fallback: Cursor) => {
+				next.startCursor = next.rows[0] ?? fallback;
+				next.endCursor = next.rows.at(-1) ?? fallback;
+			};
+
+			// Takes a row that matched before out of the page, or out of the
+			// counts when it lies outside the page
+			const takeOut = (
+				key: PrimaryKeyRecord<T>,
+				before: Row<T> | undefined,
+			): [index: number, removed: Cursor | undefined] => {
+				const index = next.rows.findIndex((row) => isSameRow(row, key));
+				if (index !== -1) return [index, remove(index)];
+				// Without the old image we can't tell where the row was
+				if (before === undefined) {
+					stale = true;
+					return [index, undefined];
+				}
+				if (!matches(before)) return [index, undefined];
+				next.rowCount--;
+				const position = locate(next, toCursor(before));
+				if (position === "before") next.itemBeforeCount--;
+				else if (position === "after") next.itemAfterCount--;
+				else stale = true;
+				return [index, undefined];
+			};
+
+			for (const e of events) {
+				if (e.kind === "insert") {
+					const row = e.after ?? e.row;
+					if (!matches(row)) continue;
+					const cursor = toCursor(row);
+					const at = place(cursor);
+					if (at !== -1) delta.push({ kind: "add", index: at, row: cursor });
+				} else if (e.kind === "update") {
+					const [index, removed] = takeOut(e.key, e.before);
+
+					const row = e.after ?? this.storage.findUnique(e.key);
+					const cursor = row && matches(row) ? toCursor(row) : undefined;
+					const at = cursor === undefined ? -1 : place(cursor);
+					if (removed !== undefined) syncCursors(removed);
+
+					// Unchanged in place, also in the selected columns
+					if (
+						removed !== undefined &&
+						cursor !== undefined &&
+						at === index &&
+						isDeepStrictEqual(removed, cursor)
+					)
+						continue;
+					if (removed !== undefined && cursor !== undefined && at !== -1)
+						delta.push({ kind: "move", from: index, to: at, row: cursor });
+					else if (removed !== undefined)
+						delta.push({ kind: "remove", index, key: e.key });
+					else if (cursor !== undefined && at !== -1)
+						delta.push({ kind: "add", index: at, row: cursor });
+				} else if (e.kind === "delete") {
+					const [index, removed] = takeOut(e.key, e.before);
+					if (removed === undefined) continue;
+					syncCursors(removed);
+					delta.push({ kind: "remove", index, key: e.key });
+				}
+			}
+
+			if (stale) {
+				next.rowCount = queries.countTotal();
+				const startCursor = next.startCursor as Cursor | undefined;
+				const endCursor = next.endCursor as Cursor | undefined;
+				if (next.rows.length > 0 && startCursor && endCursor) {
+					next.itemBeforeCount = queries.countBefore(startCursor);
+					next.itemAfterCount = queries.countAfter(endCursor);
+				} else if (endCursor !== undefined) {
+					next.itemAfterCount = queries.countAfter(endCursor);
+					next.itemBeforeCount = next.rowCount - next.itemAfterCount;
+				} else {
+					next.itemBeforeCount = page.itemBeforeCount === 0 ? 0 : next.rowCount;
+					next.itemAfterCount = next.rowCount - next.itemBeforeCount;
+				}
+			}
+
+			if (
+				delta.length === 0 &&
+				next.rowCount === page.rowCount &&
+				next.itemBeforeCount === page.itemBeforeCount &&
+				next.itemAfterCount === page.itemAfterCount
+			)
+				return;
+			page = next;
+			return [delta, page];
+		};
+
+		const loadPage = (
+			e: PageEvent,
+		): [PageDelta<T, Cursor>, Page<T, Cursor>] | undefined => {
+			const { rows } = page;
+			let loaded: Cursor[];
+			let trimmed: Cursor[];
+			let nextRows: Cursor[];
+			let { itemBeforeCount, itemAfterCount } = page;
+			if (e.kind === "loadMore") {
+				if (itemAfterCount === 0) return;
+				loaded = queries.loadForward({
+					after: page.endCursor as Cursor | undefined,
+					first: e.count,
+				});
+				const merged = [...rows, ...loaded];
+				const dropCount = Math.max(merged.length - e.retainCount, 0);
+				trimmed = merged.slice(0, dropCount);
+				nextRows = merged.slice(dropCount);
+				itemAfterCount -= loaded.length;
+				itemBeforeCount += trimmed.length;
+			} else {
+				if (itemBeforeCount === 0) return;
+				loaded = queries.loadBackward({
+					before: page.startCursor as Cursor | undefined,
+					last: e.count,
+				});
+				const merged = [...loaded, ...rows];
+				const keepCount = Math.min(merged.length, e.retainCount);
+				trimmed = merged.slice(keepCount);
+				nextRows = merged.slice(0, keepCount);
+				itemBeforeCount -= loaded.length;
+				itemAfterCount += trimmed.length;
+			}
+			if (loaded.length === 0 && trimmed.length === 0) return;
+
+			// An emptied page keeps the cursor of the last dropped row so that
+			// it can still be extended from where it was
+			const boundary = trimmed.at(e.kind === "loadMore" ? -1 : 0);
+			const delta = this.diffRows(rows, nextRows);
+			page = {
+				rows: nextRows,
+				rowCount: page.rowCount,
+				startCursor: nextRows[0] ?? boundary,
+				endCursor: nextRows.at(-1) ?? boundary,
+				itemBeforeCount,
+				itemAfterCount,
+			};
+			return [delta, page];
+		};
+
+		return createDynamic<Page<T, Cursor>, PageDelta<T, Cursor>>(
+			page,
+			merge(
+				this.events.pipe(
+					map(applyTableEvents),
+					filter((update) => update !== undefined),
+				),
+				pageEvent.pipe(
+					map(loadPage),
+					filter((update) => update !== undefined),
+				),
+			).pipe(
 				share({
 					resetOnRefCountZero: () =>
 						timer(10 * 1000).pipe(
@@ -213,6 +759,427 @@ export class Table<T extends TableSchemaBase>
 		);
 	}
 
+	/**
+	 * An offset page is read again after every change to the table, as any
+	 * change before it shifts its rows. Page events move its edges.
+	 */
+	private findOffsetPage<Cursor extends PrimaryKeyRecord<T>>(
+		pageInput: PageInit<T, Cursor> & OffsetPageInit,
+		pageEvent: Observable<PageEvent>,
+	): Dynamic<Page<T, Cursor>, PageDelta<T, Cursor>> {
+		const queries = this.storage.prepareFindMany<Cursor>(pageInput);
+		let { offset, limit } = pageInput;
+		let page = loadOffsetPage(queries, { offset, limit });
+
+		const reload = (): [PageDelta<T, Cursor>, Page<T, Cursor>] | undefined => {
+			const next = loadOffsetPage(queries, { offset, limit });
+			const delta = this.diffRows(page.rows, next.rows);
+			if (
+				delta.length === 0 &&
+				next.rowCount === page.rowCount &&
+				next.itemBeforeCount === page.itemBeforeCount
+			)
+				return;
+			page = next;
+			return [delta, page];
+		};
+		const move = (e: PageEvent) => {
+			if (e.kind === "loadMore") {
+				if (page.itemAfterCount === 0) return;
+				limit += e.count;
+				offset += Math.max(limit - e.retainCount, 0);
+			} else {
+				if (offset === 0) return;
+				const start = Math.max(offset - e.count, 0);
+				limit += offset - start;
+				offset = start;
+			}
+			limit = Math.min(limit, e.retainCount);
+			return reload();
+		};
+
+		return createDynamic<Page<T, Cursor>, PageDelta<T, Cursor>>(
+			page,
+			merge(this.events.pipe(map(reload)), pageEvent.pipe(map(move))).pipe(
+				filter((update) => update !== undefined),
+				share({
+					resetOnRefCountZero: () => timer(10 * 1000),
+				}),
+			),
+		);
+	}
+
+	/**
+	 * The live position of the row with the key among the rows `findMany`
+	 * would page through with the same filter and order, or null when the
+	 * filter leaves it out.
+	 */
+	indexOf(
+		options: Pick<PageInit<T, Row<T>>, "filter" | "orderBy">,
+		key: PrimaryKeyRecord<T>,
+	): Dynamic<number | null, void> {
+		const queries = this.storage.prepareFindMany(options);
+		let index = queries.indexOf(key);
+		return createDynamic<number | null, void>(
+			index,
+			this.events.pipe(
+				map(() => queries.indexOf(key)),
+				filter((next) => next !== index),
+				// biome-ignore lint/suspicious/noConfusingVoidType: <explanation>
+				map((next): [void, number | null] => {
+					index = next;
+					return [void 0, index];
+				}),
+				share({
+					resetOnRefCountZero: () => timer(10 * 1000),
+				}),
+			),
+		);
+	}
+
+	/**
+	 * The rows at the positions of the latest range `range` emits, among the
+	 * rows `findMany` would page through with the same filter and order. Rows
+	 * a new range shares with the previous one are kept rather than read
+	 * again. Until the first range arrives the window is empty.
+	 */
+	findRange<Cursor extends PrimaryKeyRecord<T>>(
+		options: Pick<PageInit<T, Cursor>, "filter" | "orderBy" | "select">,
+		range: Observable<RowRange>,
+	): Dynamic<RangeWindow<T, Cursor>, PageDelta<T, Cursor>> {
+		const queries = this.storage.prepareFindMany<Cursor>(options);
+		const load = ({ start, end }: RowRange) =>
+			end > start
+				? queries.loadOffset({ offset: start, limit: end - start })
+				: [];
+		let requested: RowRange = { start: 0, end: 0 };
+		let window: RangeWindow<T, Cursor> = {
+			start: 0,
+			rows: [],
+			rowCount: queries.countTotal(),
+		};
+
+		const update = (
+			next: RangeWindow<T, Cursor>,
+		): [PageDelta<T, Cursor>, RangeWindow<T, Cursor>] | undefined => {
+			const delta = this.diffRows(window.rows, next.rows);
+			if (
+				delta.length === 0 &&
+				next.start === window.start &&
+				next.rowCount === window.rowCount
+			)
+				return;
+			window = next;
+			return [delta, window];
+		};
+		// Any change to the table may shift the rows of the window
+		const reload = () =>
+			update({
+				start: requested.start,
+				rows: load(requested),
+				rowCount: queries.countTotal(),
+			});
+		const moveTo = (next: RowRange) => {
+			requested = next;
+			const cachedEnd = window.start + window.rows.length;
+			const overlapStart = Math.max(next.start, window.start);
+			const overlapEnd = Math.min(next.end, cachedEnd);
+			const rows =
+				overlapStart < overlapEnd
+					? [
+							...load({ start: next.start, end: overlapStart }),
+							...window.rows.slice(
+								overlapStart - window.start,
+								overlapEnd - window.start,
+							),
+							...load({ start: overlapEnd, end: next.end }),
+						]
+					: load(next);
+			return update({ start: next.start, rows, rowCount: window.rowCount });
+		};
+
+		return createDynamic<RangeWindow<T, Cursor>, PageDelta<T, Cursor>>(
+			window,
+			merge(this.events.pipe(map(reload)), range.pipe(map(moveTo))).pipe(
+				filter((update) => update !== undefined),
+				share({
+					resetOnRefCountZero: () => timer(10 * 1000),
+				}),
+			),
+		);
+	}
+
+	/**
+	 * Turns `rows` into `next`: removes the rows missing from `next`, last
+	 * first, then walks `next` in order, moving rows that are kept but have
+	 * changed or shifted and adding new ones.
+	 */
+	private diffRows<Cursor extends PrimaryKeyRecord<T>>(
+		rows: Cursor[],
+		next: Cursor[],
+	): PageDelta<T, Cursor> {
+		const isSameKey = (a: Cursor, b: Cursor) =>
+			this.tableSchema.primaryKey.every(
+				(pk: PrimaryKey<T>[number]) => a[pk] === b[pk],
+			);
+		const delta: PageDelta<T, Cursor> = [];
+		const current = [...rows];
+		for (let index = current.length - 1; index >= 0; index--) {
+			// biome-ignore lint/style/noNonNullAssertion: <explanation>
+			const row = current[index]!;
+			if (next.some((other) => isSameKey(row, other))) continue;
+			current.splice(index, 1);
+			delta.push({ kind: "remove", index, key: this.getKeyRecord(row) });
+		}
+		next.forEach((row, to) => {
+			const from = current.findIndex((other) => isSameKey(row, other));
+			if (from === to && isDeepStrictEqual(current[from], row)) return;
+			if (from === -1) {
+				current.splice(to, 0, row);
+				delta.push({ kind: "add", index: to, row });
+				return;
+			}
+			current.splice(from, 1);
+			current.splice(to, 0, row);
+			delta.push({ kind: "move", from, to, row });
+		});
+		return delta;
+	}
+
+	/**
+	 * Adds the relations of `include` to the rows of a page. The rows a read of
+	 * the page brings in get their relations in one batch, and a change to
+	 * this table or a related one reads again only the rows it concerns.
+	 */
+	private includeInPage<
+		Cursor extends PrimaryKeyRecord<T>,
+		I extends RelationName<T>,
+	>(
+		base: Dynamic<Page<T, Cursor>, PageDelta<T, Cursor>>,
+		include: readonly I[],
+	): Dynamic<
+		Page<T, CursorWith<T, Cursor, I>>,
+		PageDelta<T, CursorWith<T, Cursor, I>>
+	> {
+		type Entry = CursorWith<T, Cursor, I>;
+		// The base page hands out the same cursor for a row until it changes
+		const entries = new WeakMap<Cursor, Entry>();
+		const links = new WeakMap<Cursor, IncludedRead["links"]>();
+		const load = (rows: Cursor[]) => {
+			if (rows.length === 0) return;
+			const reads = this.readIncluded(
+				rows.map((row) => this.getKeyRecord(row)),
+				include,
+			);
+			rows.forEach((row, i) => {
+				// biome-ignore lint/style/noNonNullAssertion: <explanation>
+				const read = reads[i]!;
+				entries.set(row, { ...row, ...read.included } as Entry);
+				links.set(row, read.links);
+			});
+		};
+		const entryOf = (row: Cursor) => {
+			if (!entries.has(row)) load([row]);
+			// biome-ignore lint/style/noNonNullAssertion: <explanation>
+			return entries.get(row)!;
+		};
+		const rebuild = (): Page<T, Entry> => {
+			const basePage = base.read();
+			const rows = Array.from(basePage.rows);
+			load(rows.filter((row) => !entries.has(row)));
+			return { ...basePage, rows: rows.map(entryOf) };
+		};
+		let page = rebuild();
+
+		const applyDelta = (
+			delta: PageDelta<T, Cursor>,
+		): [PageDelta<T, Entry>, Page<T, Entry>] => {
+			page = rebuild();
+			return [
+				delta.map((change) =>
+					change.kind === "remove"
+						? change
+						: { ...change, row: entryOf(change.row) },
+				),
+				page,
+			];
+		};
+		const refresh = (
+			isConcerned: (row: Cursor) => boolean,
+		): [PageDelta<T, Entry>, Page<T, Entry>] | undefined => {
+			const rows = Array.from(base.read().rows);
+			const concerned = rows.filter(
+				(row) => entries.has(row) && isConcerned(row),
+			);
+			if (concerned.length === 0) return;
+			const current = concerned.map((row) => entries.get(row));
+			load(concerned);
+			const delta: PageDelta<T, Entry> = [];
+			concerned.forEach((row, i) => {
+				// biome-ignore lint/style/noNonNullAssertion: <explanation>
+				const next = entries.get(row)!;
+				if (isDeepStrictEqual(current[i], next)) return;
+				const index = rows.indexOf(row);
+				delta.push({ kind: "move", from: index, to: index, row: next });
+			});
+			if (delta.length === 0) return;
+			page = rebuild();
+			return [delta, page];
+		};
+		// Rows an update of this table changed, the relations may follow it
+		const keyOf = (row: PrimaryKeyRecord<T>) =>
+			this.tableSchema.primaryKey.map((pk: PrimaryKey<T>[number]) => row[pk]);
+		const ownRows = (events: TableEvent<T>[]) => (row: Cursor) =>
+			events.some(
+				(e) => e.kind === "update" && eqTuple(keyOf(e.key), keyOf(row)),
+			);
+		// Rows whose columns hold the values a changed related row referenced
+		// before or after the change
+		const relatedRows = ([name, events]: RelatedChange) => {
+			const { references } = this.relationOf(name);
+			const images = events.map(imagesOf);
+			// An event without images could concern any row
+			if (images.some((list) => list.length === 0)) return () => true;
+			const values = images
+				.flat()
+				.map((image) => references.map((col) => image[col]));
+			return (row: Cursor) => {
+				const linked = links.get(row)?.[name];
+				return (
+					linked !== undefined && values.some((value) => eqTuple(value, linked))
+				);
+			};
+		};
+
+		return createDynamic<Page<T, Entry>, PageDelta<T, Entry>>(
+			page,
+			merge(
+				base.updated.pipe(map(applyDelta)),
+				this.events.pipe(map((events) => refresh(ownRows(events)))),
+				this.relatedChanges(include).pipe(
+					map((change) => refresh(relatedRows(change))),
+				),
+			).pipe(
+				filter((update) => update !== undefined),
+				share({
+					resetOnRefCountZero: () =>
+						timer(10 * 1000).pipe(tap(() => base.disconnect())),
+				}),
+			),
+		);
+	}
+
+	/**
+	 * Reads the relations of `include` for the rows with the given keys, in a
+	 * query per relation for each batch of up to `relatedBatchSize` keys.
+	 */
+	private readIncluded(
+		keys: PrimaryKeyRecord<T>[],
+		include: readonly string[],
+	): IncludedRead[] {
+		const { primaryKey } = this.tableSchema;
+		const table = this.tableSchema.name;
+		const positions = new ManyKeyMap<unknown[], number>();
+		keys.forEach((key, i) => {
+			positions.set(
+				primaryKey.map((pk: PrimaryKey<T>[number]) => key[pk]),
+				i,
+			);
+		});
+		const reads: IncludedRead[] = keys.map(() => ({
+			included: {},
+			links: {},
+		}));
+
+		for (const name of include) {
+			const relation = this.relationOf(name);
+			const related: Record<string, unknown>[][] = keys.map(() => []);
+			for (let start = 0; start < keys.length; start += relatedBatchSize) {
+				const batch = keys.slice(start, start + relatedBatchSize);
+				// Batches are padded to a power of two with their last key, so that
+				// a few statements serve every batch size
+				const size = 2 ** Math.ceil(Math.log2(batch.length));
+				const padded = [
+					...batch,
+					...Array.from({ length: size - batch.length }, () => batch.at(-1)),
+				] as PrimaryKeyRecord<T>[];
+				for (const row of this.prepareFindRelated(name, size)(padded)) {
+					const i = positions.get(
+						primaryKey.map((pk) => row[`${table}.${pk}`]),
+					);
+					if (i === undefined) continue;
+					// biome-ignore lint/style/noNonNullAssertion: <explanation>
+					reads[i]!.links[name] = relation.columns.map(
+						(col) => row[`${table}.${col}`],
+					);
+					// A row without related rows comes back with NULL keys for them
+					if (
+						relation.schema.primaryKey.some(
+							(pk) => row[`${name}.${pk}`] === null,
+						)
+					)
+						continue;
+					related[i]?.push(
+						Object.fromEntries(
+							Object.keys(relation.schema.columns).map((col) => [
+								col,
+								row[`${name}.${col}`],
+							]),
+						),
+					);
+				}
+			}
+			reads.forEach((read, i) => {
+				// biome-ignore lint/style/noNonNullAssertion: <explanation>
+				const rows = related[i]!;
+				read.included[name] =
+					relation.kind === "one" ? (rows[0] ?? null) : rows;
+			});
+		}
+		return reads;
+	}
+
+	private prepareFindRelated(
+		name: string,
+		size: number,
+	): PreparedQueryAll<PrimaryKeyRecord<T>[], Record<string, unknown>> {
+		const cacheKey = `${name}/${size}`;
+		let prepared = this.preparedFindRelated.get(cacheKey);
+		if (prepared === undefined) {
+			prepared = this.storage.prepareQueryAll<
+				PrimaryKeyRecord<T>[],
+				Record<string, unknown>
+			>(mkFindRelated(this.tableSchema, name, size));
+			this.preparedFindRelated.set(cacheKey, prepared);
+		}
+		return prepared;
+	}
+
+	// The batches of events of the tables of the relations, by relation name
+	private relatedChanges(
+		include: readonly string[],
+	): Observable<RelatedChange> {
+		return merge(
+			...include.map((name) => {
+				const { schema } = this.relationOf(name);
+				const table = this.resolveTable?.(schema.name);
+				assert(
+					table,
+					`Including ${this.tableSchema.name}.${name} needs the ${schema.name} table, see Database`,
+				);
+				return table.changes.pipe(
+					map((events): RelatedChange => [name, events]),
+				);
+			}),
+		);
+	}
+
+	private relationOf(name: string): Relation {
+		const relation = this.tableSchema.relations?.[name];
+		assert(relation, `Unknown relation ${this.tableSchema.name}.${name}`);
+		return relation;
+	}
+
 	private getKeyTuple<T extends TableSchemaBase>(
 		event: TableEvent<T>,
 	): PrimaryKeyTuple<T> {
@@ -232,18 +1199,28 @@ export class Table<T extends TableSchemaBase>
 		}
 	}
 
-	private getRow(key: PrimaryKeyTuple<T>) {
-		const cacheRow = this.rows.get(key);
-		if (cacheRow !== undefined) return cacheRow;
-		return this.storage.findUnique(
-			Object.fromEntries(
-				this.tableSchema.primaryKey.map((pk, i) => [pk, key[i]] as const),
-			) as unknown as PrimaryKeyRecord<T>,
-		);
+	private emit(events: TableEvent<T>[]) {
+		if (this.transactionScope) this.transactionScope.emit(this.events, events);
+		else this.events.next(events);
+	}
+
+	private getKeyRecord(row: PrimaryKeyRecord<T>): PrimaryKeyRecord<T> {
+		return Object.fromEntries(
+			this.tableSchema.primaryKey.map((pk) => [pk, row[pk]] as const),
+		) as unknown as PrimaryKeyRecord<T>;
 	}
 
 	private storage: Storage<T>;
+	private validateRow: RowValidator | undefined;
+	private onWrite: TableOptions["onWrite"];
+	private resolveTable: TableOptions["resolveTable"];
+	// By relation name and batch size
+	private preparedFindRelated = new Map<
+		string,
+		PreparedQueryAll<PrimaryKeyRecord<T>[], Record<string, unknown>>
+	>();
 	private events: Subject<TableEvent<T>[]> = new Subject();
+	private transactionScope: TransactionScope | undefined;
 	private partition = partitionByKey(this.events.pipe(concatAll()), (e) =>
 		this.getKeyTuple(e),
 	);
@@ -251,4 +1228,6 @@ export class Table<T extends TableSchemaBase>
 
 	private rows: ManyKeyMap<PrimaryKeyTuple<T>, Dynamic<Row<T> | null, void>> =
 		new ManyKeyMap();
+	private rowsByIndex: ManyKeyMap<unknown[], Dynamic<Row<T> | null, void>> =
+		new ManyKeyMap();
 }
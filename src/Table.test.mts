@@ -1,8 +1,23 @@
 import Database from "better-sqlite3";
-import { describe, expect, it } from "vitest";
+import { BehaviorSubject, Subject } from "rxjs";
+import { describe, expect, expectTypeOf, it } from "vitest";
+import type {
+	Page,
+	PageDelta,
+	PageEvent,
+	PageInit,
+	RowRange,
+} from "./Page.mjs";
+import { mkCompare } from "./RSql/mks.mjs";
 import { Table } from "./Table.mjs";
+import { RowValidationError } from "./core/rowValidation.mjs";
 import { BetterSqlite3Storage } from "./storages/better-sqlite3/BetterSqlite3Storage.mjs";
-import type { TableSchemaBase } from "./types/TableSchema.mjs";
+import type {
+	InsertRow,
+	Row,
+	TableEvent,
+	TableSchemaBase,
+} from "./types/TableSchema.mjs";
 
 const userTableSchema = {
 	name: "User",
@@ -14,13 +29,22 @@ const userTableSchema = {
 } satisfies TableSchemaBase;
 type UserTable = typeof userTableSchema;
 
+const postTableSchema = {
+	name: "Post",
+	columns: {
+		id: { kind: "number" },
+		title: { kind: "string" },
+		body: { kind: "string" },
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+type PostTable = typeof postTableSchema;
+
 function createSqliteStorage() {
 	const db = new Database(":memory:");
-	db.exec(`CREATE TABLE "User" (
-    id INTEGER PRIMARY KEY,
-    name TEXT
-  )`);
-	return new BetterSqlite3Storage<UserTable>(userTableSchema, db);
+	return new BetterSqlite3Storage<UserTable>(userTableSchema, db, {
+		createTableIfNotExists: true,
+	});
 }
 
 describe("Table", () => {
@@ -76,6 +100,98 @@ describe("Table", () => {
 		sub.unsubscribe();
 	});
 
+	it("delete should only remove the row with the given key", () => {
+		const { table, storage } = setup();
+		table.insert({ id: 1, name: "Alice" });
+		table.insert({ id: 2, name: "Bob" });
+
+		table.delete({ id: 1 });
+		expect(storage.findUnique({ id: 1 })).toBeNull();
+		expect(storage.findUnique({ id: 2 })).toEqual({ id: 2, name: "Bob" });
+	});
+
+	it("upsert should insert a missing row and emit an insert event", () => {
+		const { table, storage } = setup();
+		const dynamic = table.findUnique({ id: 1 });
+
+		let observed: { id: number; name: string } | null | undefined;
+		const sub = dynamic.updated.subscribe(() => {
+			observed = dynamic.read();
+		});
+
+		table.upsert({ id: 1, name: "Alice" });
+		expect(observed).toEqual({ id: 1, name: "Alice" });
+		expect(storage.findUnique({ id: 1 })).toEqual({ id: 1, name: "Alice" });
+		sub.unsubscribe();
+	});
+
+	it("upsert should update an existing row and emit an update event", () => {
+		const { table, storage } = setup();
+		table.insert({ id: 1, name: "Alice" });
+		const dynamic = table.findUnique({ id: 1 });
+
+		let observed: { id: number; name: string } | null | undefined;
+		const sub = dynamic.updated.subscribe(() => {
+			observed = dynamic.read();
+		});
+
+		table.upsert({ id: 1, name: "Bob" });
+		expect(observed).toEqual({ id: 1, name: "Bob" });
+		expect(storage.findUnique({ id: 1 })).toEqual({ id: 1, name: "Bob" });
+		sub.unsubscribe();
+	});
+
+	it("upsert on a table made only of key columns keeps the existing row", () => {
+		const tagSchema = {
+			name: "PostTag",
+			columns: {
+				postId: { kind: "number" },
+				tag: { kind: "string" },
+			},
+			primaryKey: ["postId", "tag"] as const,
+		} satisfies TableSchemaBase;
+		const storage = new BetterSqlite3Storage(
+			tagSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		const table = new Table(tagSchema, storage);
+		const events: TableEvent<typeof tagSchema>[] = [];
+		const sub = table.changes.subscribe((e) => events.push(...e));
+
+		table.upsert({ postId: 1, tag: "news" });
+		table.upsert({ postId: 1, tag: "news" });
+
+		expect(storage.findUnique({ postId: 1, tag: "news" })).toEqual({
+			postId: 1,
+			tag: "news",
+		});
+		expect(events.map((e) => e.kind)).toEqual(["insert", "update"]);
+		expect(events[1]).toMatchObject({
+			before: { postId: 1, tag: "news" },
+			after: { postId: 1, tag: "news" },
+		});
+		sub.unsubscribe();
+	});
+
+	it("findUnique keeps earlier changes across several updates", () => {
+		const db = new Database(":memory:");
+		const table = new Table<PostTable>(
+			postTableSchema,
+			new BetterSqlite3Storage<PostTable>(postTableSchema, db, {
+				createTableIfNotExists: true,
+			}),
+		);
+		table.insert({ id: 1, title: "Hello", body: "..." });
+		const dynamic = table.findUnique({ id: 1 });
+		const sub = dynamic.updated.subscribe();
+
+		table.update({ id: 1 }, { title: "Hi" });
+		table.update({ id: 1 }, { body: "Long text" });
+		expect(dynamic.read()).toEqual({ id: 1, title: "Hi", body: "Long text" });
+		sub.unsubscribe();
+	});
+
 	it("multiple findUnique calls return independent dynamics", () => {
 		const { table } = setup();
 		table.insert({ id: 1, name: "Alice" });
@@ -86,3 +202,1158 @@ describe("Table", () => {
 		expect(() => d2.read()).not.toThrow();
 	});
 });
+
+describe("Table.findMany", () => {
+	function setup() {
+		const storage = createSqliteStorage();
+		const table = new Table<UserTable>(userTableSchema, storage);
+		for (let id = 1; id <= 10; ++id) {
+			table.insert({ id, name: `User${id}` });
+		}
+		const pageEvent = new Subject<PageEvent>();
+		return { storage, table, pageEvent };
+	}
+
+	const ids = (page: Page<UserTable, { id: number }>) =>
+		Array.from(page.rows).map((row) => row.id);
+
+	it("loadMore appends rows after the end of the page", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		pageEvent.next({ kind: "loadMore", count: 2, retainCount: 10 });
+
+		const page = dynamic.read();
+		expect(ids(page)).toEqual([1, 2, 3, 4, 5]);
+		expect(page.startCursor).toEqual({ id: 1 });
+		expect(page.endCursor).toEqual({ id: 5 });
+		expect(page.itemBeforeCount).toBe(0);
+		expect(page.itemAfterCount).toBe(5);
+		expect(deltas).toEqual([
+			[
+				{ kind: "add", index: 3, row: { id: 4 } },
+				{ kind: "add", index: 4, row: { id: 5 } },
+			],
+		]);
+		sub.unsubscribe();
+	});
+
+	it("loadPrev prepends rows before the start of the page", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "backward",
+				last: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+
+		pageEvent.next({ kind: "loadPrev", count: 2, retainCount: 10 });
+
+		const page = dynamic.read();
+		expect(ids(page)).toEqual([6, 7, 8, 9, 10]);
+		expect(page.startCursor).toEqual({ id: 6 });
+		expect(page.itemBeforeCount).toBe(5);
+		expect(page.itemAfterCount).toBe(0);
+	});
+
+	it("drops rows from the opposite edge beyond retainCount", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		pageEvent.next({ kind: "loadMore", count: 2, retainCount: 3 });
+
+		let page = dynamic.read();
+		expect(ids(page)).toEqual([3, 4, 5]);
+		expect(page.itemBeforeCount).toBe(2);
+		expect(page.itemAfterCount).toBe(5);
+		expect(deltas).toEqual([
+			[
+				{ kind: "remove", index: 1, key: { id: 2 } },
+				{ kind: "remove", index: 0, key: { id: 1 } },
+				{ kind: "add", index: 1, row: { id: 4 } },
+				{ kind: "add", index: 2, row: { id: 5 } },
+			],
+		]);
+
+		pageEvent.next({ kind: "loadPrev", count: 1, retainCount: 3 });
+
+		page = dynamic.read();
+		expect(ids(page)).toEqual([2, 3, 4]);
+		expect(page.itemBeforeCount).toBe(1);
+		expect(page.itemAfterCount).toBe(6);
+		sub.unsubscribe();
+	});
+
+	it("ignores loadMore at the end of the table", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "backward",
+				last: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		pageEvent.next({ kind: "loadMore", count: 2, retainCount: 10 });
+
+		expect(ids(dynamic.read())).toEqual([8, 9, 10]);
+		expect(deltas).toEqual([]);
+		sub.unsubscribe();
+	});
+
+	it("inserts a row between the cursors into the page", () => {
+		const { table, pageEvent } = setup();
+		table.delete({ id: 2 });
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.insert({ id: 2, name: "User2" });
+
+		const page = dynamic.read();
+		expect(ids(page)).toEqual([1, 2, 3, 4]);
+		expect(page.rowCount).toBe(10);
+		expect(page.itemBeforeCount).toBe(0);
+		expect(page.itemAfterCount).toBe(6);
+		expect(deltas).toEqual([[{ kind: "add", index: 1, row: { id: 2 } }]]);
+		sub.unsubscribe();
+	});
+
+	it("counts a row inserted outside the cursors before or after the page", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				after: { id: 3 },
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+
+		table.insert({ id: 0, name: "User0" });
+		table.insert({ id: 11, name: "User11" });
+
+		const page = dynamic.read();
+		expect(ids(page)).toEqual([4, 5, 6]);
+		expect(page.rowCount).toBe(12);
+		expect(page.itemBeforeCount).toBe(4);
+		expect(page.itemAfterCount).toBe(5);
+	});
+
+	it("ignores inserted rows that don't match the filter", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+				filter: {
+					kind: "binOp",
+					operator: "!=",
+					left: { kind: "column", name: "name" },
+					right: { kind: "constant", value: "Hidden" },
+				},
+			},
+			pageEvent,
+		);
+
+		table.insert({ id: 11, name: "Hidden" });
+
+		const page = dynamic.read();
+		expect(page.rowCount).toBe(10);
+		expect(page.itemAfterCount).toBe(7);
+	});
+
+	it("removes a deleted row from the page and moves the cursors", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.delete({ id: 3 });
+
+		const page = dynamic.read();
+		expect(ids(page)).toEqual([1, 2]);
+		expect(page.endCursor).toEqual({ id: 2 });
+		expect(page.rowCount).toBe(9);
+		expect(page.itemAfterCount).toBe(7);
+		expect(deltas).toEqual([[{ kind: "remove", index: 2, key: { id: 3 } }]]);
+		sub.unsubscribe();
+	});
+
+	it("updates the counts when a row outside the page is deleted", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				after: { id: 3 },
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+
+		table.delete({ id: 1 });
+		table.delete({ id: 10 });
+
+		const page = dynamic.read();
+		expect(ids(page)).toEqual([4, 5, 6]);
+		expect(page.rowCount).toBe(8);
+		expect(page.itemBeforeCount).toBe(2);
+		expect(page.itemAfterCount).toBe(3);
+	});
+
+	const openFilter = {
+		kind: "binOp",
+		operator: "!=",
+		left: { kind: "column", name: "name" },
+		right: { kind: "constant", value: "Closed" },
+	} as const;
+
+	it("removes a row that stops matching the filter after an update", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+				filter: openFilter,
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.update({ id: 2 }, { name: "Closed" });
+
+		const page = dynamic.read();
+		expect(ids(page)).toEqual([1, 3]);
+		expect(page.rowCount).toBe(9);
+		expect(page.itemAfterCount).toBe(7);
+		expect(deltas).toEqual([[{ kind: "remove", index: 1, key: { id: 2 } }]]);
+		sub.unsubscribe();
+	});
+
+	it("adds a row that starts matching the filter after an update", () => {
+		const { table, pageEvent } = setup();
+		table.update({ id: 2 }, { name: "Closed" });
+		table.update({ id: 8 }, { name: "Closed" });
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+				filter: openFilter,
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.update({ id: 2 }, { name: "Reopened" });
+		table.update({ id: 8 }, { name: "Reopened" });
+
+		const page = dynamic.read();
+		expect(ids(page)).toEqual([1, 2, 3, 4]);
+		expect(page.rowCount).toBe(10);
+		expect(page.itemBeforeCount).toBe(0);
+		expect(page.itemAfterCount).toBe(6);
+		expect(deltas).toEqual([[{ kind: "add", index: 1, row: { id: 2 } }], []]);
+		sub.unsubscribe();
+	});
+
+	it("moves a row out of the page when its ordered column changes", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ name: string; id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [
+					{ column: "name", direction: "asc" },
+					{ column: "id", direction: "asc" },
+				],
+			},
+			pageEvent,
+		);
+		expect(Array.from(dynamic.read().rows)).toEqual([
+			{ name: "User1", id: 1 },
+			{ name: "User10", id: 10 },
+			{ name: "User2", id: 2 },
+		]);
+		const deltas: PageDelta<UserTable, { name: string; id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.update({ id: 10 }, { name: "Zed" });
+
+		const page = dynamic.read();
+		expect(Array.from(page.rows)).toEqual([
+			{ name: "User1", id: 1 },
+			{ name: "User2", id: 2 },
+		]);
+		expect(page.rowCount).toBe(10);
+		expect(page.itemAfterCount).toBe(8);
+		expect(deltas).toEqual([[{ kind: "remove", index: 1, key: { id: 10 } }]]);
+		sub.unsubscribe();
+	});
+
+	it("moves a row within the page when its ordered column changes", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ name: string; id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [
+					{ column: "name", direction: "asc" },
+					{ column: "id", direction: "asc" },
+				],
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { name: string; id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.update({ id: 1 }, { name: "User11" });
+
+		expect(Array.from(dynamic.read().rows)).toEqual([
+			{ name: "User10", id: 10 },
+			{ name: "User11", id: 1 },
+			{ name: "User2", id: 2 },
+		]);
+		expect(deltas).toEqual([
+			[{ kind: "move", from: 0, to: 1, row: { name: "User11", id: 1 } }],
+		]);
+		sub.unsubscribe();
+	});
+
+	it("emits nothing for an update that keeps the row in place", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.update({ id: 1 }, { name: "Renamed" });
+
+		expect(ids(dynamic.read())).toEqual([1, 2, 3]);
+		expect(deltas).toEqual([]);
+		sub.unsubscribe();
+	});
+});
+
+describe("Table.findMany with mixed orderBy directions", () => {
+	it("places inserted and updated rows by each column's direction", () => {
+		const storage = new BetterSqlite3Storage<PostTable>(
+			postTableSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		const table = new Table<PostTable>(postTableSchema, storage);
+		for (const [id, title] of [
+			[1, "b"],
+			[2, "a"],
+			[3, "b"],
+			[4, "c"],
+		] as const) {
+			table.insert({ id, title, body: "" });
+		}
+		type Cursor = { id: number; title: string };
+		const dynamic = table.findMany<Cursor>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [
+					{ column: "title", direction: "desc" },
+					{ column: "id", direction: "asc" },
+				],
+			},
+			new Subject<PageEvent>(),
+		);
+		const ids = () => Array.from(dynamic.read().rows, (row) => row.id);
+		expect(ids()).toEqual([4, 1, 3]);
+
+		table.insert({ id: 5, title: "b", body: "" });
+		expect(ids()).toEqual([4, 1, 3]);
+		expect(dynamic.read().itemAfterCount).toBe(2);
+
+		table.insert({ id: 0, title: "b", body: "" });
+		expect(ids()).toEqual([4, 0, 1, 3]);
+
+		// Sorting before the first row of the page, it's counted before it
+		table.update({ id: 2 }, { title: "d" });
+		expect(ids()).toEqual([4, 0, 1, 3]);
+		expect(dynamic.read().itemBeforeCount).toBe(1);
+	});
+});
+
+describe("Table.findMany ordered by a non-key column", () => {
+	it("places rows with equal values by their key", () => {
+		const storage = new BetterSqlite3Storage<PostTable>(
+			postTableSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		const table = new Table<PostTable>(postTableSchema, storage);
+		for (const id of [1, 3, 5]) {
+			table.insert({ id, title: "same", body: "" });
+		}
+		const dynamic = table.findMany<{ id: number; title: string }>(
+			{
+				kind: "forward",
+				first: 10,
+				orderBy: [{ column: "title", direction: "asc" }],
+			},
+			new Subject<PageEvent>(),
+		);
+
+		table.insert({ id: 2, title: "same", body: "" });
+		table.insert({ id: 4, title: "same", body: "" });
+
+		expect(Array.from(dynamic.read().rows, (row) => row.id)).toEqual([
+			1, 2, 3, 4, 5,
+		]);
+	});
+});
+
+describe("Table.findMany over an empty table", () => {
+	const orderBy = [{ column: "id", direction: "asc" }] as PageInit<
+		UserTable,
+		{ id: number }
+	>["orderBy"];
+
+	it("fills a forward page up to its size", () => {
+		const table = new Table<UserTable>(userTableSchema, createSqliteStorage());
+		const dynamic = table.findMany<{ id: number }>(
+			{ kind: "forward", first: 2, orderBy },
+			new Subject<PageEvent>(),
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.insert({ id: 2, name: "User2" });
+		table.insert({ id: 1, name: "User1" });
+		table.insert({ id: 3, name: "User3" });
+
+		const page = dynamic.read();
+		expect(Array.from(page.rows)).toEqual([{ id: 1 }, { id: 2 }]);
+		expect(page.startCursor).toEqual({ id: 1 });
+		expect(page.endCursor).toEqual({ id: 2 });
+		expect(page.itemBeforeCount).toBe(0);
+		expect(page.itemAfterCount).toBe(1);
+		expect(deltas).toEqual([
+			[{ kind: "add", index: 0, row: { id: 2 } }],
+			[{ kind: "add", index: 0, row: { id: 1 } }],
+			[],
+		]);
+		sub.unsubscribe();
+	});
+
+	it("fills a backward page up to its size", () => {
+		const table = new Table<UserTable>(userTableSchema, createSqliteStorage());
+		const dynamic = table.findMany<{ id: number }>(
+			{ kind: "backward", last: 2, orderBy },
+			new Subject<PageEvent>(),
+		);
+		const sub = dynamic.updated.subscribe();
+
+		table.insert({ id: 2, name: "User2" });
+		table.insert({ id: 3, name: "User3" });
+		table.insert({ id: 1, name: "User1" });
+
+		const page = dynamic.read();
+		expect(Array.from(page.rows)).toEqual([{ id: 2 }, { id: 3 }]);
+		expect(page.startCursor).toEqual({ id: 2 });
+		expect(page.endCursor).toEqual({ id: 3 });
+		expect(page.itemBeforeCount).toBe(1);
+		expect(page.itemAfterCount).toBe(0);
+		sub.unsubscribe();
+	});
+
+	it("fills a forward page after its cursor", () => {
+		const table = new Table<UserTable>(userTableSchema, createSqliteStorage());
+		const dynamic = table.findMany<{ id: number }>(
+			{ kind: "forward", after: { id: 5 }, first: 2, orderBy },
+			new Subject<PageEvent>(),
+		);
+		const sub = dynamic.updated.subscribe();
+
+		table.insert({ id: 8, name: "User8" });
+		table.insert({ id: 1, name: "User1" });
+		table.insert({ id: 6, name: "User6" });
+		table.insert({ id: 9, name: "User9" });
+
+		const page = dynamic.read();
+		expect(Array.from(page.rows)).toEqual([{ id: 6 }, { id: 8 }]);
+		expect(page.itemBeforeCount).toBe(1);
+		expect(page.itemAfterCount).toBe(1);
+		sub.unsubscribe();
+	});
+});
+
+describe("Table.findMany with offset pages", () => {
+	function setup() {
+		const storage = createSqliteStorage();
+		const table = new Table<UserTable>(userTableSchema, storage);
+		for (let id = 2; id <= 20; id += 2) {
+			table.insert({ id, name: `User${id}` });
+		}
+		return { table, pageEvent: new Subject<PageEvent>() };
+	}
+	const orderBy = [{ column: "id", direction: "asc" }] as PageInit<
+		UserTable,
+		{ id: number }
+	>["orderBy"];
+
+	it("shifts its rows when rows are inserted before it", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{ kind: "offset", offset: 2, limit: 3, orderBy },
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+		expect(Array.from(dynamic.read().rows)).toEqual([
+			{ id: 6 },
+			{ id: 8 },
+			{ id: 10 },
+		]);
+
+		table.insert({ id: 1, name: "First" });
+
+		expect(Array.from(dynamic.read().rows)).toEqual([
+			{ id: 4 },
+			{ id: 6 },
+			{ id: 8 },
+		]);
+		expect(deltas).toEqual([
+			[
+				{ kind: "remove", index: 2, key: { id: 10 } },
+				{ kind: "add", index: 0, row: { id: 4 } },
+			],
+		]);
+		expect(dynamic.read().itemAfterCount).toBe(6);
+		sub.unsubscribe();
+	});
+
+	it("moves its edges with page events", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<{ id: number }>(
+			{ kind: "offset", offset: 2, limit: 2, orderBy },
+			pageEvent,
+		);
+		const ids = () => Array.from(dynamic.read().rows, (row) => row.id);
+
+		pageEvent.next({ kind: "loadMore", count: 2, retainCount: 3 });
+		expect(ids()).toEqual([8, 10, 12]);
+		expect(dynamic.read().itemBeforeCount).toBe(3);
+
+		pageEvent.next({ kind: "loadPrev", count: 5, retainCount: 10 });
+		expect(ids()).toEqual([2, 4, 6, 8, 10, 12]);
+		expect(dynamic.read().itemBeforeCount).toBe(0);
+	});
+
+	it("keeps the position of a row live", () => {
+		const { table } = setup();
+		const index = table.indexOf({ orderBy }, { id: 10 });
+		expect(index.read()).toBe(4);
+
+		table.insert({ id: 1, name: "First" });
+		expect(index.read()).toBe(5);
+
+		table.delete({ id: 10 });
+		expect(index.read()).toBeNull();
+	});
+
+	it("gives positions in the order of any column", () => {
+		const { table } = setup();
+		table.update({ id: 2 }, { name: "Zed" });
+		const index = table.indexOf(
+			{ orderBy: [{ column: "name", direction: "asc" }] },
+			{ id: 2 },
+		);
+		expect(index.read()).toBe(9);
+	});
+});
+
+describe("Table.findMany with around pages", () => {
+	const orderBy = [{ column: "id", direction: "asc" }] as PageInit<
+		UserTable,
+		{ id: number }
+	>["orderBy"];
+
+	it("stays live under inserts on both sides of the anchor", () => {
+		const table = new Table<UserTable>(userTableSchema, createSqliteStorage());
+		for (let id = 2; id <= 20; id += 2) {
+			table.insert({ id, name: `User${id}` });
+		}
+		const dynamic = table.findMany<{ id: number }>(
+			{ kind: "around", anchor: { id: 10 }, before: 2, after: 2, orderBy },
+			new Subject<PageEvent>(),
+		);
+		const ids = () => Array.from(dynamic.read().rows, (row) => row.id);
+		expect(ids()).toEqual([6, 8, 10, 12, 14]);
+		expect(dynamic.read().itemBeforeCount).toBe(2);
+		expect(dynamic.read().itemAfterCount).toBe(3);
+
+		table.insert({ id: 7, name: "Before" });
+		table.insert({ id: 13, name: "After" });
+		expect(ids()).toEqual([6, 7, 8, 10, 12, 13, 14]);
+
+		table.insert({ id: 1, name: "First" });
+		table.insert({ id: 19, name: "Last" });
+		expect(ids()).toEqual([6, 7, 8, 10, 12, 13, 14]);
+		expect(dynamic.read().itemBeforeCount).toBe(3);
+		expect(dynamic.read().itemAfterCount).toBe(4);
+	});
+});
+
+describe("Table.findRange", () => {
+	function setup() {
+		const storage = createSqliteStorage();
+		const table = new Table<UserTable>(userTableSchema, storage);
+		for (let id = 1; id <= 20; id++) {
+			table.insert({ id, name: `User${id}` });
+		}
+		const range = new BehaviorSubject<RowRange>({ start: 5, end: 8 });
+		const dynamic = table.findRange<{ id: number }>(
+			{ orderBy: [{ column: "id", direction: "asc" }] },
+			range,
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		dynamic.updated.subscribe((delta) => deltas.push(delta));
+		const ids = () => dynamic.read().rows.map((row) => row.id);
+		return { table, range, dynamic, deltas, ids };
+	}
+
+	it("follows the range, keeping the rows it already has", () => {
+		const { range, dynamic, deltas, ids } = setup();
+		expect(ids()).toEqual([6, 7, 8]);
+		expect(dynamic.read().rowCount).toBe(20);
+
+		range.next({ start: 6, end: 10 });
+		expect(ids()).toEqual([7, 8, 9, 10]);
+		expect(dynamic.read().start).toBe(6);
+		expect(deltas.at(-1)).toEqual([
+			{ kind: "remove", index: 0, key: { id: 6 } },
+			{ kind: "add", index: 2, row: { id: 9 } },
+			{ kind: "add", index: 3, row: { id: 10 } },
+		]);
+
+		range.next({ start: 18, end: 25 });
+		expect(ids()).toEqual([19, 20]);
+	});
+
+	it("shifts its rows and counts them as the table changes", () => {
+		const { table, dynamic, deltas, ids } = setup();
+		deltas.length = 0;
+
+		table.delete({ id: 2 });
+		expect(ids()).toEqual([7, 8, 9]);
+		expect(dynamic.read().rowCount).toBe(19);
+		expect(deltas).toEqual([
+			[
+				{ kind: "remove", index: 0, key: { id: 6 } },
+				{ kind: "add", index: 2, row: { id: 9 } },
+			],
+		]);
+
+		table.insert({ id: 30, name: "Last" });
+		expect(ids()).toEqual([7, 8, 9]);
+		expect(dynamic.read().rowCount).toBe(20);
+		expect(deltas.at(-1)).toEqual([]);
+	});
+});
+
+describe("Table.findMany with select", () => {
+	function setup() {
+		const storage = createSqliteStorage();
+		const table = new Table<UserTable>(userTableSchema, storage);
+		for (let id = 1; id <= 5; ++id) {
+			table.insert({ id, name: `User${id}` });
+		}
+		return { table, pageEvent: new Subject<PageEvent>() };
+	}
+
+	it("holds full rows in the page and the rows it loads", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<Row<UserTable>>(
+			{
+				kind: "forward",
+				first: 2,
+				orderBy: [{ column: "id", direction: "asc" }],
+				select: "*",
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, Row<UserTable>>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		expect(Array.from(dynamic.read().rows)).toEqual([
+			{ id: 1, name: "User1" },
+			{ id: 2, name: "User2" },
+		]);
+
+		pageEvent.next({ kind: "loadMore", count: 1, retainCount: 10 });
+		expect(deltas).toEqual([
+			[{ kind: "add", index: 2, row: { id: 3, name: "User3" } }],
+		]);
+		sub.unsubscribe();
+	});
+
+	it("moves a row in place when a selected column changes", () => {
+		const { table, pageEvent } = setup();
+		const dynamic = table.findMany<Row<UserTable>>(
+			{
+				kind: "forward",
+				first: 3,
+				orderBy: [{ column: "id", direction: "asc" }],
+				select: ["name"],
+			},
+			pageEvent,
+		);
+		const deltas: PageDelta<UserTable, Row<UserTable>>[] = [];
+		const sub = dynamic.updated.subscribe((delta) => deltas.push(delta));
+
+		table.update({ id: 2 }, { name: "Renamed" });
+
+		expect(Array.from(dynamic.read().rows)).toEqual([
+			{ id: 1, name: "User1" },
+			{ id: 2, name: "Renamed" },
+			{ id: 3, name: "User3" },
+		]);
+		expect(deltas).toEqual([
+			[{ kind: "move", from: 1, to: 1, row: { id: 2, name: "Renamed" } }],
+		]);
+		sub.unsubscribe();
+	});
+});
+
+describe("Table.transaction", () => {
+	function setup() {
+		const storage = createSqliteStorage();
+		const table = new Table<UserTable>(userTableSchema, storage);
+		table.insert({ id: 0, name: "User0" });
+		table.insert({ id: 5, name: "User5" });
+		const dynamic = table.findMany<{ id: number }>(
+			{
+				kind: "forward",
+				first: 10,
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			new Subject<PageEvent>(),
+		);
+		const deltas: PageDelta<UserTable, { id: number }>[] = [];
+		dynamic.updated.subscribe((delta) => deltas.push(delta));
+		return { storage, table, dynamic, deltas };
+	}
+
+	it("emits the events of a committed transaction at once", () => {
+		const { table, storage, dynamic, deltas } = setup();
+
+		const result = table.transaction(() => {
+			table.insert({ id: 1, name: "User1" });
+			table.insert({ id: 2, name: "User2" });
+			expect(deltas).toEqual([]);
+			return "done";
+		});
+
+		expect(result).toBe("done");
+		expect(deltas).toEqual([
+			[
+				{ kind: "add", index: 1, row: { id: 1 } },
+				{ kind: "add", index: 2, row: { id: 2 } },
+			],
+		]);
+		expect(dynamic.read().rowCount).toBe(4);
+		expect(storage.findUnique({ id: 2 })).toEqual({ id: 2, name: "User2" });
+	});
+
+	it("emits nothing and keeps storage unchanged on rollback", () => {
+		const { table, storage, dynamic, deltas } = setup();
+
+		expect(() =>
+			table.transaction(() => {
+				table.insert({ id: 1, name: "User1" });
+				table.delete({ id: 5 });
+				throw new Error("abort");
+			}),
+		).toThrow("abort");
+
+		expect(deltas).toEqual([]);
+		expect(dynamic.read().rowCount).toBe(2);
+		expect(storage.findUnique({ id: 1 })).toBeNull();
+		expect(storage.findUnique({ id: 5 })).toEqual({ id: 5, name: "User5" });
+	});
+
+	it("drops only the events of a rolled back nested transaction", () => {
+		const { table, storage, deltas } = setup();
+
+		table.transaction(() => {
+			table.insert({ id: 1, name: "User1" });
+			try {
+				table.transaction(() => {
+					table.insert({ id: 2, name: "User2" });
+					throw new Error("abort");
+				});
+			} catch {}
+		});
+
+		expect(deltas).toEqual([[{ kind: "add", index: 1, row: { id: 1 } }]]);
+		expect(storage.findUnique({ id: 2 })).toBeNull();
+	});
+});
+
+const articleTableSchema = {
+	name: "Article",
+	columns: {
+		id: { kind: "number" },
+		status: {
+			kind: "enum",
+			values: ["draft", "published", "archived"] as const,
+		},
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+type ArticleTable = typeof articleTableSchema;
+
+describe("Table with enum columns", () => {
+	function setup() {
+		const storage = new BetterSqlite3Storage<ArticleTable>(
+			articleTableSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		const table = new Table<ArticleTable>(articleTableSchema, storage);
+		return { storage, table };
+	}
+
+	it("types the column with the literal union of its values", () => {
+		expectTypeOf<Row<ArticleTable>["status"]>().toEqualTypeOf<
+			"draft" | "published" | "archived"
+		>();
+		mkCompare(articleTableSchema, "status", "=", "published");
+		// @ts-expect-error "deleted" isn't one of the values
+		mkCompare(articleTableSchema, "status", "=", "deleted");
+	});
+
+	it("rejects values outside the enum before writing", () => {
+		const { table, storage } = setup();
+		const events: unknown[] = [];
+		table.changes.subscribe((batch) => events.push(...batch));
+
+		expect(() =>
+			table.insert({ id: 1, status: "deleted" as "draft" }),
+		).toThrowError(/Invalid value "deleted" for Article.status/);
+		expect(storage.findUnique({ id: 1 })).toBeNull();
+
+		table.insert({ id: 1, status: "draft" });
+		expect(() =>
+			table.update({ id: 1 }, { status: "deleted" as "draft" }),
+		).toThrowError(/expected one of draft, published, archived/);
+		expect(storage.findUnique({ id: 1 })).toEqual({ id: 1, status: "draft" });
+		expect(events).toHaveLength(1);
+	});
+
+	it("enforces the values with a CHECK constraint in the database", () => {
+		const { storage } = setup();
+		expect(() =>
+			storage.insert({ id: 1, status: "deleted" as "draft" }),
+		).toThrowError(/CHECK constraint failed/);
+	});
+
+	it("filters pages with comparisons built from the enum", () => {
+		const { table } = setup();
+		table.insert({ id: 1, status: "draft" });
+		table.insert({ id: 2, status: "published" });
+
+		const page = table.findMany(
+			{
+				kind: "forward",
+				first: 10,
+				filter: mkCompare(articleTableSchema, "status", "=", "published"),
+				orderBy: [{ column: "id", direction: "asc" }],
+			},
+			new Subject<PageEvent>(),
+		);
+		expect(Array.from(page.read().rows)).toEqual([{ id: 2 }]);
+	});
+});
+
+const taskTableSchema = {
+	name: "Task",
+	columns: {
+		id: { kind: "number", generated: { kind: "autoincrement" } },
+		title: { kind: "string" },
+		done: { kind: "boolean", default: { kind: "constant", value: false } },
+		label: {
+			kind: "string",
+			generated: { kind: "computed", sql: "upper(title)" },
+		},
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+type TaskTable = typeof taskTableSchema;
+
+describe("Table with defaults and generated columns", () => {
+	function setup() {
+		const storage = new BetterSqlite3Storage<TaskTable>(
+			taskTableSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		const table = new Table<TaskTable>(taskTableSchema, storage);
+		return { storage, table };
+	}
+
+	it("makes defaulted columns optional and leaves computed ones out", () => {
+		expectTypeOf<InsertRow<TaskTable>>().toEqualTypeOf<
+			{ title: string } & { id?: number; done?: boolean }
+		>();
+	});
+
+	it("returns and emits the row as stored", () => {
+		const { table } = setup();
+		const events: TableEvent<TaskTable>[] = [];
+		table.changes.subscribe((batch) => events.push(...batch));
+
+		const first = table.insert({ title: "write" });
+		const second = table.insert({ title: "test", done: true });
+
+		expect(first).toEqual({
+			id: 1,
+			title: "write",
+			done: false,
+			label: "WRITE",
+		});
+		expect(second).toEqual({ id: 2, title: "test", done: true, label: "TEST" });
+		expect(events).toEqual([
+			{ kind: "insert", row: first, after: first },
+			{ kind: "insert", row: second, after: second },
+		]);
+	});
+
+	it("shows generated columns to live dynamics", () => {
+		const { table } = setup();
+		const dynamic = table.findUnique({ id: 1 });
+		const sub = dynamic.updated.subscribe();
+
+		table.insert({ title: "write" });
+		expect(dynamic.read()).toEqual({
+			id: 1,
+			title: "write",
+			done: false,
+			label: "WRITE",
+		});
+
+		table.upsert({ id: 1, title: "rewrite", done: true });
+		expect(dynamic.read()).toEqual({
+			id: 1,
+			title: "rewrite",
+			done: true,
+			label: "REWRITE",
+		});
+
+		table.update({ id: 1 }, { title: "update" });
+		expect(dynamic.read()).toEqual({
+			id: 1,
+			title: "update",
+			done: true,
+			label: "UPDATE",
+		});
+		sub.unsubscribe();
+	});
+
+	it("keeps defaulted columns an upsert leaves out", () => {
+		const { table, storage } = setup();
+		table.insert({ title: "write", done: true });
+
+		// @ts-expect-error computed columns can't be written
+		const writeLabel = () => table.upsert({ id: 1, title: "", label: "" });
+		expectTypeOf(writeLabel).toBeFunction();
+		table.upsert({ id: 1, title: "rewrite" });
+		expect(storage.findUnique({ id: 1 })).toEqual({
+			id: 1,
+			title: "rewrite",
+			done: true,
+			label: "REWRITE",
+		});
+
+		table.upsert({ id: 2, title: "new" });
+		expect(storage.findUnique({ id: 2 })).toEqual({
+			id: 2,
+			title: "new",
+			done: false,
+			label: "NEW",
+		});
+	});
+
+	it("emits the stored row after an update", () => {
+		const { table } = setup();
+		const before = table.insert({ title: "write" });
+		const events: TableEvent<TaskTable>[] = [];
+		table.changes.subscribe((batch) => events.push(...batch));
+
+		table.update({ id: 1 }, { title: "b" });
+
+		expect(events).toEqual([
+			{
+				kind: "update",
+				key: { id: 1 },
+				row: { title: "b" },
+				before,
+				after: { id: 1, title: "b", done: false, label: "B" },
+			},
+		]);
+	});
+});
+
+describe("Table row validation", () => {
+	it("rejects rows that don't match the schema before writing", () => {
+		const storage = createSqliteStorage();
+		const table = new Table<UserTable>(userTableSchema, storage);
+
+		expect(() =>
+			table.insert({ id: 1, name: 42 as unknown as string }),
+		).toThrowError(RowValidationError);
+		expect(storage.findUnique({ id: 1 })).toBeNull();
+
+		table.insert({ id: 1, name: "Alice" });
+		expect(() =>
+			table.update({ id: 1 }, { name: null as unknown as string }),
+		).toThrowError(RowValidationError);
+		expect(storage.findUnique({ id: 1 })).toEqual({ id: 1, name: "Alice" });
+	});
+
+	it("can be turned off", () => {
+		const storage = createSqliteStorage();
+		const table = new Table<UserTable>(userTableSchema, storage, {
+			validateRows: false,
+		});
+
+		// SQLite converts the number to text on its own
+		table.insert({ id: 1, name: 42 as unknown as string });
+		expect(storage.findUnique({ id: 1 })).not.toBeNull();
+	});
+});
+
+const accountTableSchema = {
+	name: "Account",
+	columns: {
+		id: { kind: "number" },
+		tenant: { kind: "string" },
+		email: { kind: "string" },
+	},
+	primaryKey: ["id"] as const,
+	uniqueIndexes: { email: ["tenant", "email"] as const },
+} satisfies TableSchemaBase;
+type AccountTable = typeof accountTableSchema;
+
+describe("Table.findUniqueBy", () => {
+	function setup() {
+		const storage = new BetterSqlite3Storage<AccountTable>(
+			accountTableSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		const table = new Table<AccountTable>(accountTableSchema, storage);
+		return { storage, table };
+	}
+
+	it("looks a row up by a unique index", () => {
+		const { table } = setup();
+		table.insert({ id: 1, tenant: "a", email: "x@a" });
+		table.insert({ id: 2, tenant: "b", email: "x@a" });
+
+		expect(
+			table.findUniqueBy("email", { tenant: "b", email: "x@a" }).read(),
+		).toEqual({ id: 2, tenant: "b", email: "x@a" });
+		expect(
+			table.findUniqueBy("email", { tenant: "c", email: "x@a" }).read(),
+		).toBeNull();
+	});
+
+	it("enforces the index in the database", () => {
+		const { table } = setup();
+		table.insert({ id: 1, tenant: "a", email: "x@a" });
+		expect(() =>
+			table.insert({ id: 2, tenant: "a", email: "x@a" }),
+		).toThrowError(/UNIQUE constraint failed/);
+	});
+
+	it("follows inserts, updates of the indexed columns and deletes", () => {
+		const { table } = setup();
+		const dynamic = table.findUniqueBy("email", { tenant: "a", email: "x@a" });
+		const sub = dynamic.updated.subscribe();
+		expect(dynamic.read()).toBeNull();
+
+		table.insert({ id: 1, tenant: "a", email: "x@a" });
+		expect(dynamic.read()).toEqual({ id: 1, tenant: "a", email: "x@a" });
+
+		// The row gives the values away, then another row takes them
+		table.update({ id: 1 }, { email: "y@a" });
+		expect(dynamic.read()).toBeNull();
+		table.insert({ id: 2, tenant: "a", email: "z@a" });
+		table.update({ id: 2 }, { email: "x@a" });
+		expect(dynamic.read()).toEqual({ id: 2, tenant: "a", email: "x@a" });
+
+		table.delete({ id: 2 });
+		expect(dynamic.read()).toBeNull();
+		sub.unsubscribe();
+	});
+
+	it("doesn't emit for changes to other rows", () => {
+		const { table } = setup();
+		table.insert({ id: 1, tenant: "a", email: "x@a" });
+		const dynamic = table.findUniqueBy("email", { tenant: "a", email: "x@a" });
+		const updates: unknown[] = [];
+		const sub = dynamic.updated.subscribe((delta) => updates.push(delta));
+
+		table.insert({ id: 2, tenant: "a", email: "y@a" });
+		table.update({ id: 2 }, { email: "z@a" });
+		expect(updates).toEqual([]);
+		sub.unsubscribe();
+	});
+});
@@ -0,0 +1,49 @@
+import type { Observer } from "rxjs";
+
+/**
+ * Defers events emitted during a transaction until it commits.
+ * Several tables can share one scope, so that a transaction spanning all of
+ * them publishes its events only after the single commit.
+ */
+export class TransactionScope {
+	constructor(private readonly runInTransaction: <R>(fn: () => R) => R) {}
+
+	run<R>(fn: () => R): R {
+		const outer = this.pending;
+		const pending: [Observer<unknown[]>, unknown[]][] = [];
+		this.pending = pending;
+		let result: R;
+		try {
+			result = this.runInTransaction(fn);
+		} finally {
+			this.pending = outer;
+		}
+		// A nested transaction hands its events over to the enclosing one
+		if (outer) {
+			outer.push(...pending);
+			return result;
+		}
+
+		// Each sink receives all of its events as a single batch
+		const batches = new Map<Observer<unknown[]>, unknown[]>();
+		for (const [sink, events] of pending) {
+			const batch = batches.get(sink);
+			if (batch) batch.push(...events);
+			else batches.set(sink, [...events]);
+		}
+		for (const [sink, events] of batches) {
+			sink.next(events);
+		}
+		return result;
+	}
+
+	emit<E>(sink: Observer<E[]>, events: E[]): void {
+		if (this.pending) {
+			this.pending.push([sink as Observer<unknown[]>, events]);
+		} else {
+			sink.next(events);
+		}
+	}
+
+	private pending: [Observer<unknown[]>, unknown[]][] | undefined;
+}
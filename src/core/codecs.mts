@@ -0,0 +1,54 @@
+import type { ColumnCodec, ColumnType } from "../types/TableSchema.mjs";
+
+const identity: ColumnCodec<unknown, unknown> = {
+	encode: (value) => value,
+	decode: (stored) => stored,
+};
+
+// Integers come back as bigint from statements reading a bigint column
+const numberCodec: ColumnCodec<number, number | bigint> = {
+	encode: (value) => value,
+	decode: (stored) => (typeof stored === "bigint" ? Number(stored) : stored),
+};
+
+const booleanCodec: ColumnCodec<boolean, number | bigint> = {
+	encode: (value) => (value ? 1 : 0),
+	decode: (stored) => Boolean(stored),
+};
+
+const isoDateCodec: ColumnCodec<Date, string> = {
+	encode: (value) => value.toISOString(),
+	decode: (stored) => new Date(stored),
+};
+
+const epochDateCodec: ColumnCodec<Date, number | bigint> = {
+	encode: (value) => value.getTime(),
+	decode: (stored) => new Date(Number(stored)),
+};
+
+const jsonCodec: ColumnCodec<unknown, string> = {
+	encode: (value) => JSON.stringify(value),
+	decode: (stored) => JSON.parse(stored),
+};
+
+const bigintCodec: ColumnCodec<bigint, number | bigint> = {
+	encode: (value) => value,
+	decode: (stored) => BigInt(stored),
+};
+
+// The codec a column's values are stored with, its own or the built-in one
+export function columnCodecOf(
+	column: ColumnType,
+): ColumnCodec<unknown, unknown> {
+	if (column.codec) return column.codec;
+	const codec = {
+		string: identity,
+		number: numberCodec,
+		boolean: booleanCodec,
+		date: column.dateFormat === "epoch" ? epochDateCodec : isoDateCodec,
+		json: jsonCodec,
+		bigint: bigintCodec,
+		enum: identity,
+	}[column.kind];
+	return codec as ColumnCodec<unknown, unknown>;
+}
@@ -0,0 +1,91 @@
+import type { ColumnType, TableSchemaBase } from "../types/TableSchema.mjs";
+
+/**
+ * Thrown when a value written to a table doesn't match its column.
+ */
+export class RowValidationError extends Error {
+	constructor(
+		readonly table: string,
+		readonly column: string,
+		readonly expected: ColumnType["kind"],
+		readonly received: unknown,
+		allowed?: readonly string[],
+	) {
+		super(
+			`Invalid value ${describeValue(received)} for ${table}.${column}, expected ${allowed ? `one of ${allowed.join(", ")}` : expected}`,
+		);
+		this.name = "RowValidationError";
+	}
+}
+
+/**
+ * Checks the values of a row, or of the columns present in an update when
+ * `partial` is set, and throws a `RowValidationError` on the first mismatch.
+ */
+export type RowValidator = (values: object, partial?: boolean) => void;
+
+export function compileRowValidator(schema: TableSchemaBase): RowValidator {
+	const checks = Object.entries(schema.columns)
+		// Computed columns are never written
+		.filter(([, column]) => column.generated?.kind !== "computed")
+		.map(([name, column]) => {
+			const isValid = valueCheckOf(column);
+			const isOptional =
+				column.default !== undefined ||
+				column.generated?.kind === "autoincrement";
+			return (values: Record<string, unknown>, partial: boolean) => {
+				const value = values[name];
+				if (value === undefined) {
+					if (partial || isOptional) return;
+				} else if (value === null ? column.nullable : isValid(value)) {
+					return;
+				}
+				throw new RowValidationError(
+					schema.name,
+					name,
+					column.kind,
+					value,
+					column.kind === "enum" ? (column.values ?? []) : undefined,
+				);
+			};
+		});
+
+	return (values, partial = false) => {
+		for (const check of checks) {
+			check(values as Record<string, unknown>, partial);
+		}
+	};
+}
+
+function valueCheckOf(column: ColumnType): (value: unknown) => boolean {
+	// What a codec accepts is up to the codec
+	if (column.codec) return () => true;
+	switch (column.kind) {
+		case "string":
+			return (value) => typeof value === "string";
+		case "number":
+			return (value) => typeof value === "number" && !Number.isNaN(value);
+		case "boolean":
+			return (value) => typeof value === "boolean";
+		case "date":
+			return (value) => value instanceof Date && !Number.isNaN(value.getTime());
+		case "json":
+			return () => true;
+		case "bigint":
+			return (value) => typeof value === "bigint";
+		case "enum":
+			return (value) =>
+				typeof value === "string" && (column.values ?? []).includes(value);
+	}
+}
+
+function describeValue(value: unknown): string {
+	if (value === undefined) return "undefined";
+	if (typeof value === "bigint") return `${value}n`;
+	if (value instanceof Date) return `Date(${value.getTime()})`;
+	try {
+		return JSON.stringify(value) ?? String(value);
+	} catch {
+		return String(value);
+	}
+}
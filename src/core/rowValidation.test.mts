@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { TableSchemaBase } from "../types/TableSchema.mjs";
+import { RowValidationError, compileRowValidator } from "./rowValidation.mjs";
+
+const profileSchema = {
+	name: "Profile",
+	columns: {
+		id: { kind: "number", generated: { kind: "autoincrement" } },
+		name: { kind: "string" },
+		bio: { kind: "string", nullable: true },
+		verified: { kind: "boolean", default: { kind: "constant", value: false } },
+		born: { kind: "date" },
+		role: { kind: "enum", values: ["admin", "member"] },
+		karma: { kind: "bigint" },
+		initial: {
+			kind: "string",
+			generated: { kind: "computed", sql: "substr(name, 1, 1)" },
+		},
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+
+const validRow = {
+	name: "Alice",
+	bio: null,
+	born: new Date(0),
+	role: "admin",
+	karma: 10n,
+};
+
+function errorOf(fn: () => void): RowValidationError {
+	try {
+		fn();
+	} catch (error) {
+		if (error instanceof RowValidationError) return error;
+		throw error;
+	}
+	throw new Error("Expected a RowValidationError");
+}
+
+describe("compileRowValidator", () => {
+	const validate = compileRowValidator(profileSchema);
+
+	it("accepts rows matching the schema", () => {
+		expect(() => validate(validRow)).not.toThrow();
+		expect(() =>
+			validate({ ...validRow, id: 1, verified: true }),
+		).not.toThrow();
+	});
+
+	it("reports the column, the expected kind and the received value", () => {
+		const error = errorOf(() => validate({ ...validRow, name: 42 }));
+		expect(error).toMatchObject({
+			table: "Profile",
+			column: "name",
+			expected: "string",
+			received: 42,
+		});
+		expect(error.message).toBe(
+			"Invalid value 42 for Profile.name, expected string",
+		);
+	});
+
+	it("rejects NULL in columns that aren't nullable", () => {
+		expect(errorOf(() => validate({ ...validRow, name: null }))).toMatchObject({
+			column: "name",
+			received: null,
+		});
+	});
+
+	it("requires columns without a default, unless the row is partial", () => {
+		const { name: _, ...withoutName } = validRow;
+		expect(errorOf(() => validate(withoutName))).toMatchObject({
+			column: "name",
+			received: undefined,
+		});
+		expect(() => validate({ role: "member" }, true)).not.toThrow();
+	});
+
+	it("checks dates, bigints and enum values", () => {
+		expect(
+			errorOf(() => validate({ ...validRow, born: new Date(Number.NaN) })),
+		).toMatchObject({ column: "born", expected: "date" });
+		expect(errorOf(() => validate({ ...validRow, karma: 10 }))).toMatchObject({
+			column: "karma",
+			expected: "bigint",
+		});
+		expect(errorOf(() => validate({ role: "owner" }, true)).message).toBe(
+			'Invalid value "owner" for Profile.role, expected one of admin, member',
+		);
+	});
+
+	it("ignores computed columns", () => {
+		expect(() => validate({ ...validRow, initial: 1 })).not.toThrow();
+	});
+});
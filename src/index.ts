@@ -1,3 +1,5 @@
 export * from "./core/Dynamic.mjs";
 export * from "./Table.mjs";
 export * from "./Storage.mjs";
+export * from "./Database.mjs";
+export * from "./core/rowValidation.mjs";
@@ -0,0 +1,172 @@
+import Database from "better-sqlite3";
+import { beforeEach, describe, expect, expectTypeOf, it } from "vitest";
+import type {
+	ColumnCodec,
+	Row,
+	TableSchemaBase,
+} from "../../types/TableSchema.mjs";
+import { BetterSqlite3Storage } from "./BetterSqlite3Storage.mjs";
+
+const urlCodec: ColumnCodec<URL, string> = {
+	encode: (value) => value.href,
+	decode: (stored) => new URL(stored),
+};
+
+const eventSchema = {
+	name: "events",
+	columns: {
+		id: { kind: "number" },
+		at: { kind: "date" },
+		until: { kind: "date", dateFormat: "epoch", nullable: true },
+		done: { kind: "boolean" },
+		payload: { kind: "json" },
+		link: { kind: "string", codec: urlCodec },
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+type EventTable = typeof eventSchema;
+
+const event: Row<EventTable> = {
+	id: 1,
+	at: new Date("2024-01-02T03:04:05.000Z"),
+	until: new Date("2024-01-03T00:00:00.000Z"),
+	done: true,
+	payload: { tags: ["a", "b"], count: 2 },
+	link: new URL("https://example.com/a"),
+};
+
+describe("SqliteStorage codecs", () => {
+	let db: Database.Database;
+	let storage: BetterSqlite3Storage<EventTable>;
+
+	beforeEach(() => {
+		db = new Database(":memory:");
+		storage = new BetterSqlite3Storage<EventTable>(eventSchema, db, {
+			createTableIfNotExists: true,
+		});
+	});
+
+	it("types user-defined codec columns with the decoded value", () => {
+		expectTypeOf<Row<EventTable>["link"]>().toEqualTypeOf<URL>();
+		expectTypeOf<Row<EventTable>["until"]>().toEqualTypeOf<Date | null>();
+	});
+
+	it("stores encoded values and reads rows back decoded", () => {
+		storage.insert(event);
+
+		expect(db.prepare("SELECT * FROM events").get()).toEqual({
+			id: 1,
+			at: "2024-01-02T03:04:05.000Z",
+			until: Date.parse("2024-01-03T00:00:00.000Z"),
+			done: 1,
+			payload: '{"tags":["a","b"],"count":2}',
+			link: "https://example.com/a",
+		});
+		expect(storage.findUnique({ id: 1 })).toEqual(event);
+	});
+
+	it("encodes updates and upserts, leaving NULL alone", () => {
+		storage.insert(event);
+		storage.update({ id: 1 }, { done: false, until: null });
+		expect(storage.findUnique({ id: 1 })).toEqual({
+			...event,
+			done: false,
+			until: null,
+		});
+
+		const at = new Date("2025-01-01T00:00:00.000Z");
+		storage.upsert({ ...event, at });
+		expect(storage.findUnique({ id: 1 })?.at).toEqual(at);
+	});
+
+	it("encodes cursors and filter constants in findMany", () => {
+		for (let id = 1; id <= 4; id++) {
+			storage.insert({
+				...event,
+				id,
+				at: new Date(Date.UTC(2024, 0, id)),
+			});
+		}
+
+		const page = storage.findMany<{ id: number; at: Date }>({
+			kind: "forward",
+			first: 10,
+			after: { id: 1, at: new Date(Date.UTC(2024, 0, 1)) },
+			filter: {
+				kind: "binOp",
+				operator: "<",
+				left: { kind: "column", name: "at" },
+				right: { kind: "constant", value: new Date(Date.UTC(2024, 0, 4)) },
+			},
+			orderBy: [
+				{ column: "at", direction: "asc" },
+				{ column: "id", direction: "asc" },
+			],
+		});
+		expect(Array.from(page.rows)).toEqual([
+			{ at: new Date(Date.UTC(2024, 0, 2)), id: 2 },
+			{ at: new Date(Date.UTC(2024, 0, 3)), id: 3 },
+		]);
+		expect(page.itemBeforeCount).toBe(1);
+	});
+});
+
+const ledgerSchema = {
+	name: "ledger",
+	columns: {
+		id: { kind: "number" },
+		amount: { kind: "bigint" },
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+
+describe("SqliteStorage bigint columns", () => {
+	it("keeps integers beyond Number.MAX_SAFE_INTEGER exact", () => {
+		const storage = new BetterSqlite3Storage(
+			ledgerSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		const amount = 2n ** 60n + 1n;
+		storage.insert({ id: 1, amount });
+
+		// Other integer columns of the row are still numbers
+		expect(storage.findUnique({ id: 1 })).toEqual({ id: 1, amount });
+	});
+});
+
+describe("SqliteStorage column defaults", () => {
+	it("reads constant defaults back through the column's codec", () => {
+		const schema = {
+			name: "defaults",
+			columns: {
+				id: { kind: "number" },
+				at: {
+					kind: "date",
+					dateFormat: "epoch",
+					default: { kind: "constant", value: new Date(0) },
+				},
+				tags: { kind: "json", default: { kind: "constant", value: ["new"] } },
+				link: {
+					kind: "string",
+					codec: urlCodec,
+					default: {
+						kind: "constant",
+						value: new URL("https://example.com/"),
+					},
+				},
+			},
+			primaryKey: ["id"] as const,
+		} satisfies TableSchemaBase;
+		const storage = new BetterSqlite3Storage(schema, new Database(":memory:"), {
+			createTableIfNotExists: true,
+		});
+
+		expect(storage.insert({ id: 1 })).toEqual({
+			id: 1,
+			at: new Date(0),
+			tags: ["new"],
+			link: new URL("https://example.com/"),
+		});
+	});
+});
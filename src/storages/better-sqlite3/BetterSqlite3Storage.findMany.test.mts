@@ -24,10 +24,9 @@ type UserTable = typeof userSchema;
 describe("SqliteStorage.findMany", () => {
 	it("returns results in orderBy direction for before+last (backward) pagination (Relay spec)", () => {
 		const db = new Database(":memory:");
-		db.exec(
-			"CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER)",
-		);
-		const storage = new BetterSqlite3Storage<UserTable>(userSchema, db);
+		const storage = new BetterSqlite3Storage<UserTable>(userSchema, db, {
+			createTableIfNotExists: true,
+		});
 		for (let i = 1; i <= 10; ++i) {
 			storage.insert({ id: i, name: `User${i}`, age: 20 + i });
 		}
@@ -57,26 +56,154 @@ describe("SqliteStorage.findMany", () => {
 		expect(backwardIds).toEqual([4, 5, 6]);
 	});
 
-	it("throws if orderBy directions are mixed (asc/desc)", () => {
+	it("paginates with mixed orderBy directions in both directions", () => {
 		const db = new Database(":memory:");
-		db.exec(
-			"CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER)",
-		);
-		const storage = new BetterSqlite3Storage<UserTable>(userSchema, db);
-		for (let i = 1; i <= 3; ++i) {
-			storage.insert({ id: i, name: `User${i}`, age: 20 + i });
+		const storage = new BetterSqlite3Storage<UserTable>(userSchema, db, {
+			createTableIfNotExists: true,
+		});
+		for (let i = 1; i <= 6; ++i) {
+			storage.insert({ id: i, name: `User${i}`, age: 20 + (i % 3) });
 		}
-		const pageInput: PageInit<UserTable, { id: number; name: string }> = {
+		type Cursor = { id: number; age: number };
+		const orderBy: PageInit<UserTable, Cursor>["orderBy"] = [
+			{ column: "age", direction: "desc" },
+			{ column: "id", direction: "asc" },
+		];
+
+		const forward: number[] = [];
+		let after: Cursor | undefined = undefined;
+		while (true) {
+			const page: Page<UserTable, Cursor> = storage.findMany<Cursor>({
+				kind: "forward",
+				first: 2,
+				orderBy,
+				...(after && { after }),
+			});
+			const rows = Array.from(page.rows);
+			if (rows.length === 0) break;
+			forward.push(...rows.map((row) => row.id));
+			after = rows.at(-1);
+		}
+		// Ages: 1 → 21, 2 → 22, 3 → 20, 4 → 21, 5 → 22, 6 → 20
+		expect(forward).toEqual([2, 5, 1, 4, 3, 6]);
+
+		const page = storage.findMany<Cursor>({
+			kind: "backward",
+			last: 2,
+			before: { id: 4, age: 21 },
+			orderBy,
+		});
+		expect(Array.from(page.rows).map((row) => row.id)).toEqual([5, 1]);
+		expect(page.itemBeforeCount).toBe(1);
+		expect(page.itemAfterCount).toBe(3);
+	});
+
+	it("breaks ties on a non-key column with the primary key", () => {
+		const db = new Database(":memory:");
+		const storage = new BetterSqlite3Storage<UserTable>(userSchema, db, {
+			createTableIfNotExists: true,
+		});
+		for (const [id, age] of [
+			[3, 30],
+			[1, 20],
+			[4, 20],
+			[2, 30],
+		] as const) {
+			storage.insert({ id, name: `User${id}`, age });
+		}
+		type Cursor = { id: number; age: number };
+
+		const first = storage.findMany<Cursor>({
 			kind: "forward",
 			first: 2,
-			orderBy: [
-				{ column: "id", direction: "asc" },
-				{ column: "name", direction: "desc" },
-			],
+			orderBy: [{ column: "age", direction: "desc" }],
+		});
+		// Rows carry the key columns that break the ties
+		expect(Array.from(first.rows)).toEqual([
+			{ age: 30, id: 3 },
+			{ age: 30, id: 2 },
+		]);
+
+		const second = storage.findMany<Cursor>({
+			kind: "forward",
+			first: 2,
+			after: { age: 30, id: 2 },
+			orderBy: [{ column: "age", direction: "desc" }],
+		});
+		expect(Array.from(second.rows).map((row) => row.id)).toEqual([4, 1]);
+		expect(second.itemBeforeCount).toBe(2);
+	});
+
+	it("reads an offset page and the position of a row", () => {
+		const db = new Database(":memory:");
+		const storage = new BetterSqlite3Storage<UserTable>(userSchema, db, {
+			createTableIfNotExists: true,
+		});
+		for (let i = 1; i <= 10; ++i) {
+			storage.insert({ id: i, name: `User${i}`, age: 20 + i });
+		}
+		const options: Omit<PageInit<UserTable, { id: number }>, "kind"> = {
+			orderBy: [{ column: "id", direction: "desc" }],
+			filter: {
+				kind: "binOp",
+				operator: ">",
+				left: { kind: "column", name: "age" },
+				right: { kind: "constant", value: 22 },
+			},
 		};
-		expect(() => storage.findMany(pageInput)).toThrow(
-			/orderBy must be all ascending or all descending/,
+
+		const page = storage.findMany({
+			kind: "offset",
+			offset: 2,
+			limit: 3,
+			...options,
+		});
+		expect(Array.from(page.rows)).toEqual([{ id: 8 }, { id: 7 }, { id: 6 }]);
+		expect(page.rowCount).toBe(8);
+		expect(page.itemBeforeCount).toBe(2);
+		expect(page.itemAfterCount).toBe(3);
+
+		const queries = storage.prepareFindMany(options);
+		expect(queries.indexOf({ id: 7 })).toBe(3);
+		expect(queries.indexOf({ id: 1 })).toBeNull();
+	});
+
+	it("reads a page around an anchor row", () => {
+		const storage = new BetterSqlite3Storage<UserTable>(
+			userSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
 		);
+		for (let i = 1; i <= 10; ++i) {
+			storage.insert({ id: i, name: `User${i}`, age: 20 + i });
+		}
+		const orderBy: PageInit<UserTable, { id: number }>["orderBy"] = [
+			{ column: "id", direction: "asc" },
+		];
+
+		const page = storage.findMany({
+			kind: "around",
+			anchor: { id: 5 },
+			before: 2,
+			after: 3,
+			orderBy,
+		});
+		expect(Array.from(page.rows, (row) => row.id)).toEqual([3, 4, 5, 6, 7, 8]);
+		expect(page.itemBeforeCount).toBe(2);
+		expect(page.itemAfterCount).toBe(2);
+
+		// Near an edge, the page is cut short on that side only
+		storage.delete({ id: 5 });
+		const edge = storage.findMany({
+			kind: "around",
+			anchor: { id: 5 },
+			before: 10,
+			after: 1,
+			orderBy,
+		});
+		expect(Array.from(edge.rows, (row) => row.id)).toEqual([1, 2, 3, 4, 6]);
+		expect(edge.itemBeforeCount).toBe(0);
+		expect(edge.itemAfterCount).toBe(4);
 	});
 
 	let db: Database.Database;
@@ -84,10 +211,9 @@ describe("SqliteStorage.findMany", () => {
 
 	beforeEach(() => {
 		db = new Database(":memory:");
-		db.exec(
-			"CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER)",
-		);
-		storage = new BetterSqlite3Storage<UserTable>(userSchema, db);
+		storage = new BetterSqlite3Storage<UserTable>(userSchema, db, {
+			createTableIfNotExists: true,
+		});
 		// Insert sample data
 		for (let i = 1; i <= 10; ++i) {
 			storage.insert({ id: i, name: `User${i}`, age: 20 + i });
@@ -234,12 +360,10 @@ describe("SqliteStorage.findMany with composite key", () => {
 
 	beforeEach(() => {
 		db = new Database(":memory:");
-		db.exec(
-			"CREATE TABLE composite (id INTEGER, sub_id INTEGER, name TEXT, PRIMARY KEY (id, sub_id))",
-		);
 		storage = new BetterSqlite3Storage<CompositeTable>(
 			compositeTableSchema,
 			db,
+			{ createTableIfNotExists: true },
 		);
 		// Insert sample data: id 1~3, sub_id 1~2
 		for (let id = 1; id <= 3; ++id) {
@@ -285,3 +409,89 @@ describe("SqliteStorage.findMany with composite key", () => {
 		]);
 	});
 });
+
+const scoreSchema = {
+	name: "scores",
+	columns: {
+		id: { kind: "number" },
+		score: { kind: "number", nullable: true },
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+type ScoreTable = typeof scoreSchema;
+type ScoreCursor = { id: number; score: number | null };
+
+describe("SqliteStorage.findMany with nullable columns", () => {
+	let storage: BetterSqlite3Storage<ScoreTable>;
+
+	beforeEach(() => {
+		storage = new BetterSqlite3Storage<ScoreTable>(
+			scoreSchema,
+			new Database(":memory:"),
+			{ createTableIfNotExists: true },
+		);
+		for (const [id, score] of [
+			[1, null],
+			[2, 3],
+			[3, null],
+			[4, 1],
+			[5, 2],
+			[6, null],
+		] as const) {
+			storage.insert({ id, score });
+		}
+	});
+
+	function fetchAll(
+		kind: "forward" | "backward",
+		direction: "asc" | "desc",
+	): number[] {
+		const orderBy: PageInit<ScoreTable, ScoreCursor>["orderBy"] = [
+			{ column: "score", direction },
+			{ column: "id", direction },
+		];
+		let cursor: ScoreCursor | undefined = undefined;
+		const ids: number[] = [];
+		while (true) {
+			const page: Page<ScoreTable, ScoreCursor> = storage.findMany(
+				kind === "forward"
+					? { kind, first: 2, orderBy, ...(cursor && { after: cursor }) }
+					: { kind, last: 2, orderBy, ...(cursor && { before: cursor }) },
+			);
+			const rows = Array.from(page.rows);
+			if (rows.length === 0) break;
+			if (kind === "forward") ids.push(...rows.map((row) => row.id));
+			else ids.unshift(...rows.map((row) => row.id));
+			cursor = kind === "forward" ? rows[rows.length - 1] : rows[0];
+		}
+		return ids;
+	}
+
+	it("sorts NULLs first in ascending order across pages", () => {
+		expect(fetchAll("forward", "asc")).toEqual([1, 3, 6, 4, 5, 2]);
+		expect(fetchAll("backward", "asc")).toEqual([1, 3, 6, 4, 5, 2]);
+	});
+
+	it("sorts NULLs last in descending order across pages", () => {
+		expect(fetchAll("forward", "desc")).toEqual([2, 5, 4, 6, 3, 1]);
+		expect(fetchAll("backward", "desc")).toEqual([2, 5, 4, 6, 3, 1]);
+	});
+
+	it("counts the rows on each side of a NULL cursor", () => {
+		const page = storage.findMany<ScoreCursor>({
+			kind: "forward",
+			first: 2,
+			after: { id: 3, score: null },
+			orderBy: [
+				{ column: "score", direction: "asc" },
+				{ column: "id", direction: "asc" },
+			],
+		});
+		expect(Array.from(page.rows)).toEqual([
+			{ score: null, id: 6 },
+			{ score: 1, id: 4 },
+		]);
+		expect(page.itemBeforeCount).toBe(2);
+		expect(page.itemAfterCount).toBe(2);
+	});
+});
@@ -1,33 +1,45 @@
 import assert from "assert";
 import type { Database } from "better-sqlite3";
 import {
-	type BackwardPageInit,
-	type ForwardPageInit,
 	type Page,
 	type PageInit,
 	type PageParameter,
+	type PreparedFindMany,
 	type PreparedQueriesForFindMany,
 	invertDirection,
+	loadAroundPage,
+	loadOffsetPage,
+	selectedColumns,
+	withKeyTiebreak,
 } from "../../Page.mjs";
 import {
 	type Expression,
 	type Parameter,
-	type Tuple,
 	ands,
+	ors,
 } from "../../RSql/Expression.mjs";
 import type { Delete, Insert, Select, Update } from "../../RSql/RSql.mjs";
 import { compileStatementToSql } from "../../RSql/compileToSql.mjs";
 import {
 	mkDeleteRow,
+	mkFindBy,
 	mkFindUnique,
 	mkInsertRow,
 	mkUpsertRow,
+	providedColumns,
 } from "../../RSql/mkHelpers.mjs";
 import {
+	mkAnd,
 	mkColumn,
+	mkCreateIndexes,
+	mkCreateTable,
 	mkEq,
 	mkGT,
+	mkIs,
+	mkIsNotNull,
+	mkIsNull,
 	mkLT,
+	mkOr,
 	mkParameter,
 	mkPkColumns,
 	mkPkParams,
@@ -38,29 +50,54 @@ import {
 import type {
 	Mutation,
 	ReadableStorage,
+	TransactionalStorage,
 	WritableStorage,
 } from "../../Storage.mjs";
 import type {
+	PreparedMutation,
+	PreparedQueryAll,
+	PreparedQueryOne,
+} from "../../types/PreparedStatement.mjs";
+import type {
+	InsertRow,
 	PrimaryKey,
 	PrimaryKeyRecord,
 	Row,
+	UniqueIndexName,
+	UniqueIndexRecord,
+	UpsertRow,
 } from "../../types/TableSchema.mjs";
 import type { TableSchemaBase } from "../../types/TableSchema.mjs";
-import type {
-	PreparedMutation,
-	PreparedQueryAll,
-	PreparedQueryOne,
-} from "../../types/PreparedStatement.mjs";
+import { RowCodec } from "./codecs.mjs";
+
+export type BetterSqlite3StorageOptions = {
+	/**
+	 * Creates the table from the schema when the database doesn't have it yet.
+	 */
+	createTableIfNotExists?: boolean;
+};
 
 export class BetterSqlite3Storage<Table extends TableSchemaBase>
-	implements WritableStorage<Table>, ReadableStorage<Table>
+	implements
+		WritableStorage<Table>,
+		ReadableStorage<Table>,
+		TransactionalStorage<Table>
 {
 	constructor(
 		public readonly schema: Table,
 		public readonly database: Database,
+		options: BetterSqlite3StorageOptions = {},
 	) {
-		this.preparedInsert = this.prepareMutation(mkInsertRow(this.schema));
-		this.preparedUpsert = this.prepareMutation(mkUpsertRow(this.schema));
+		this.codec = new RowCodec(this.schema);
+		if (options.createTableIfNotExists) {
+			for (const statement of [
+				mkCreateTable(this.schema, { ifNotExists: true }),
+				...mkCreateIndexes(this.schema, { ifNotExists: true }),
+			]) {
+				const [sql] = compileStatementToSql(statement);
+				this.database.exec(sql);
+			}
+		}
 		this.preparedDelete = this.prepareMutation(mkDeleteRow(this.schema));
 		this.preparedFindUnique = this.prepareQueryOne(mkFindUnique(this.schema));
 	}
@@ -74,26 +111,36 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 	}
 
 	prepareQueryOne<Context, Row>(
-		query: Select<Table>,
+		query: Select<Table> | Insert<Table>,
 	): PreparedQueryOne<Context, Row> {
-		const [sql, getParams] = compileStatementToSql(query);
-		const stmt = this.database.prepare(sql);
-		return (context?: Context) =>
-			(stmt.get(...getParams(context)) as Row | undefined) ?? null;
+		const [stmt, getParams] = this.prepareQuery(query);
+		return (context?: Context) => {
+			const row = stmt.get(...getParams(context)) as Row | undefined;
+			return row === undefined
+				? null
+				: this.codec.decodeRow(
+						row,
+						query.kind === "select" ? query.joins : undefined,
+					);
+		};
 	}
 
 	prepareQueryAll<Context, Row>(
 		query: Select<Table>,
 	): PreparedQueryAll<Context, Row> {
-		const [sql, getParams] = compileStatementToSql(query);
-		const stmt = this.database.prepare(sql);
-		return (context?: Context) => stmt.all(...getParams(context)) as Row[];
+		const [stmt, getParams] = this.prepareQuery(query);
+		return (context?: Context) =>
+			(stmt.all(...getParams(context)) as Row[]).map((row) =>
+				this.codec.decodeRow(row, query.joins),
+			);
 	}
 
 	prepareMutation<Context>(
 		mutation: Insert<Table> | Update<Table> | Delete<Table>,
 	): PreparedMutation<Context> {
-		const [sql, getParams] = compileStatementToSql(mutation);
+		const [sql, getParams] = compileStatementToSql(
+			this.codec.encodeStatement(mutation),
+		);
 		const stmt = this.database.prepare(sql);
 
 		return (context?: Context) => stmt.run(...getParams(context));
@@ -118,6 +165,10 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 		}
 	}
 
+	transaction<R>(fn: () => R): R {
+		return this.database.transaction(fn)();
+	}
+
 	mutateMany(mutations: Mutation<Table>[]): void {
 		this.database.transaction(() => {
 			for (const m of mutations) {
@@ -126,12 +177,30 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 		})();
 	}
 
-	insert(row: Row<Table>): void {
-		this.preparedInsert(row);
+	insert(row: InsertRow<Table>): Row<Table> {
+		// Columns left out take their defaults, so each set of columns needs its
+		// own statement
+		const columns = providedColumns(this.schema, row);
+		const key = columns.join();
+		let preparedInsert = this.preparedInserts.get(key);
+		if (preparedInsert === undefined) {
+			preparedInsert = this.prepareQueryOne(mkInsertRow(this.schema, columns));
+			this.preparedInserts.set(key, preparedInsert);
+		}
+		// biome-ignore lint/style/noNonNullAssertion: <explanation>
+		return preparedInsert(row)!;
 	}
 
-	upsert(row: Row<Table>): void {
-		this.preparedUpsert(row);
+	upsert(row: UpsertRow<Table>): void {
+		// Defaulted columns left out keep their stored value on update
+		const columns = providedColumns(this.schema, row);
+		const key = columns.join();
+		let preparedUpsert = this.preparedUpserts.get(key);
+		if (preparedUpsert === undefined) {
+			preparedUpsert = this.prepareMutation(mkUpsertRow(this.schema, columns));
+			this.preparedUpserts.set(key, preparedUpsert);
+		}
+		preparedUpsert(row);
 	}
 
 	update(key: PrimaryKeyRecord<Table>, changes: Partial<Row<Table>>): void {
@@ -159,10 +228,7 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 
 		const updateAst: Update<Table> = mkUpdate(this.schema, set, where);
 
-		const [sql, getParamsRaw] = compileStatementToSql(updateAst);
-
-		const stmt = this.database.prepare(sql);
-		stmt.run(...getParamsRaw({ changes, key }));
+		this.prepareMutation(updateAst)({ changes, key });
 	}
 
 	delete(key: PrimaryKeyRecord<Table>): void {
@@ -175,9 +241,35 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 		return row === undefined ? null : (row as Row<Table>);
 	}
 
+	findUniqueBy<I extends UniqueIndexName<Table>>(
+		indexName: I,
+		values: UniqueIndexRecord<Table, I>,
+	): Row<Table> | null {
+		let preparedFindUniqueBy = this.preparedFindUniqueBy.get(indexName);
+		if (preparedFindUniqueBy === undefined) {
+			const columns = this.schema.uniqueIndexes?.[indexName];
+			assert(columns, `Unknown unique index ${indexName}`);
+			preparedFindUniqueBy = this.prepareQueryOne(
+				mkFindBy(this.schema, columns),
+			);
+			this.preparedFindUniqueBy.set(indexName, preparedFindUniqueBy);
+		}
+		return preparedFindUniqueBy(values);
+	}
+
 	findMany<Cursor extends PrimaryKeyRecord<Table>>(
 		pageInput: PageInit<Table, Cursor>,
 	): Page<Table, Cursor> {
+		if (pageInput.kind === "offset") {
+			return loadOffsetPage(this.prepareFindMany<Cursor>(pageInput), pageInput);
+		}
+		if (pageInput.kind === "around") {
+			return loadAroundPage(
+				this.prepareFindMany<Cursor>(pageInput),
+				pageInput,
+				this.schema.primaryKey,
+			);
+		}
 		const {
 			loadFirst,
 			loadLast,
@@ -221,6 +313,9 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 				? { startCursor: rows[0], endCursor: rows.at(-1) }
 				: { startCursor: undefined, endCursor: undefined };
 
+		// biome-ignore lint/style/noNonNullAssertion: <explanation>
+		const rowCount = countTotal()!["COUNT(*)"];
+
 		if (itemAfterCount === undefined) {
 			if (rows.length > 0) {
 				// biome-ignore lint/style/noNonNullAssertion: <explanation>
@@ -228,7 +323,8 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 				// biome-ignore lint/style/noNonNullAssertion: <explanation>
 				itemAfterCount = countAfter({ after: endCursor })!["COUNT(*)"];
 			} else {
-				itemAfterCount = 0;
+				// An empty backward page sits before every row
+				itemAfterCount = pageInput.kind === "forward" ? 0 : rowCount;
 			}
 		}
 		if (itemBeforeCount === undefined) {
@@ -238,11 +334,10 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 				// biome-ignore lint/style/noNonNullAssertion: <explanation>
 				itemBeforeCount = countBefore({ before: startCursor })!["COUNT(*)"];
 			} else {
-				itemBeforeCount = 0;
+				// An empty forward page sits after every row
+				itemBeforeCount = pageInput.kind === "forward" ? rowCount : 0;
 			}
 		}
-		// biome-ignore lint/style/noNonNullAssertion: <explanation>
-		const rowCount = countTotal()!["COUNT(*)"];
 
 		return {
 			rows,
@@ -254,14 +349,9 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 		};
 	}
 
-	prepareFindMany<Cursor extends PrimaryKeyRecord<Table>>(options: {
-		filter?: Expression<Table>;
-		orderBy: readonly {
-			column: PrimaryKey<Table>[number];
-			direction: "asc" | "desc";
-		}[];
-	}) {
-		const { filter, orderBy } = options;
+	prepareFindMany<Cursor extends PrimaryKeyRecord<Table>>(
+		options: Pick<PageInit<Table, Cursor>, "filter" | "orderBy" | "select">,
+	): PreparedFindMany<Table, Cursor> {
 		const {
 			loadFirst,
 			loadLast,
@@ -270,34 +360,72 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 			countTotal,
 			countAfter,
 			countBefore,
-		} = this.compileFindMany({
-			filter,
-			orderBy,
-		});
+			loadAt,
+			findKey,
+		} = this.compileFindMany<Cursor>(options);
 
 		return {
-			loadForward: (pageInput: ForwardPageInit<Table, Cursor>) =>
-				pageInput.after === undefined
+			loadForward: (pageInput) =>
+				(pageInput.after === undefined
 					? loadFirst({ limit: pageInput.first })
 					: loadNext({
 							cursor: pageInput.after,
 							limit: pageInput.first,
-						}),
-			loadBackward: (pageInput: BackwardPageInit<Table, Cursor>) =>
-				pageInput.before === undefined
+						})) as Cursor[],
+			loadBackward: (pageInput) =>
+				(pageInput.before === undefined
 					? loadLast({ limit: pageInput.last })
 					: loadPrev({
 							cursor: pageInput.before,
 							limit: pageInput.last,
-						}),
+						})
+				).reverse() as Cursor[],
 			// biome-ignore lint/style/noNonNullAssertion: <explanation>
 			countTotal: () => countTotal()!["COUNT(*)"],
+			// biome-ignore lint/style/noNonNullAssertion: <explanation>
+			countAfter: (after) => countAfter({ after })!["COUNT(*)"],
+			// biome-ignore lint/style/noNonNullAssertion: <explanation>
+			countBefore: (before) => countBefore({ before })!["COUNT(*)"],
+			loadOffset: (pageInput) =>
+				loadAt({ offset: pageInput.offset, limit: pageInput.limit }),
+			findKey,
+			indexOf: (key) => {
+				const cursor = findKey(key);
+				// biome-ignore lint/style/noNonNullAssertion: <explanation>
+				return cursor && countBefore({ before: cursor })!["COUNT(*)"];
+			},
 		};
 	}
 
-	private preparedInsert: PreparedMutation<Row<Table>>;
-	private preparedUpsert: PreparedMutation<Row<Table>>;
+	private prepareQuery<Context>(query: Select<Table> | Insert<Table>) {
+		const [sql, getParams] = compileStatementToSql<Table, Context>(
+			this.codec.encodeStatement(query),
+		);
+		const stmt = this.database.prepare(sql);
+		if (
+			query.kind === "select"
+				? this.codec.readsBigInt(query.columns, query.joins)
+				: this.codec.readsBigInt("*")
+		) {
+			stmt.safeIntegers(true);
+		}
+		return [stmt, getParams] as const;
+	}
+
+	private codec: RowCodec<Table>;
+	private preparedInserts = new Map<
+		string,
+		PreparedQueryOne<InsertRow<Table>, Row<Table>>
+	>();
+	private preparedUpserts = new Map<
+		string,
+		PreparedMutation<UpsertRow<Table>>
+	>();
 	private preparedDelete: PreparedMutation<PrimaryKeyRecord<Table>>;
+	private preparedFindUniqueBy = new Map<
+		string,
+		PreparedQueryOne<object, Row<Table>>
+	>();
 	private preparedFindUnique: PreparedQueryOne<
 		PrimaryKeyRecord<Table>,
 		Row<Table>
@@ -309,37 +437,18 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 			column: string & keyof Cursor;
 			direction: "asc" | "desc";
 		}[];
+		select?: "*" | readonly (string & keyof Cursor)[];
 	}): PreparedQueriesForFindMany<Table, Cursor> {
-		assert(
-			this.schema.primaryKey.every((pk) =>
-				pageInput.orderBy.some((o) => o.column === pk),
-			),
-			"orderBy must include all primary key columns",
-		);
-		assert(
-			pageInput.orderBy.every((o) => o.direction === "asc") ||
-				pageInput.orderBy.every((o) => o.direction === "desc"),
-			"orderBy must be all ascending or all descending",
-		);
-		const cursorCols = pageInput.orderBy.map((o) => mkColumn(o.column));
-		const cursorAsTuple = mkTuple(cursorCols);
-
-		const mkCursorParams = <Context, _ = unknown>(
-			getCursor: (context: Context) => Cursor,
-		): Tuple<Table> => ({
-			kind: "tuple",
-			expressions: pageInput.orderBy.map((col) => ({
-				kind: "parameter",
-				getValue: (ctx: Context) => getCursor(ctx)[col.column],
-			})),
-		});
+		const orderBy = withKeyTiebreak(this.schema, pageInput.orderBy);
+		const selectCols = selectedColumns(this.schema, {
+			orderBy,
+			select: pageInput.select,
+		}).map((col) => mkColumn(col));
 
-		// Use pkColumns, pkParams, selectCols from upper scope
 		const filter = pageInput.filter;
-		const orderBy = pageInput.orderBy;
 
 		// for load: no cursor, orderBy as is
-		const loadHeadAst: Select<Table> = mkSelect(this.schema, cursorCols, {
+		const loadHeadAst: Select<Table> = mkSelect(this.schema, selectCols, {
 			where: filter,
 			orderBy: orderBy.map((o) => ({
 				column: o.column,
@@ -351,7 +460,7 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 		});
 
 		// for load: no cursor, orderBy as is
-		const loadTailAst: Select<Table> = mkSelect(this.schema, cursorCols, {
+		const loadTailAst: Select<Table> = mkSelect(this.schema, selectCols, {
 			where: filter,
 			orderBy: orderBy.map((o) => ({
 				column: o.column,
@@ -363,14 +472,14 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 		});
 
 		// for loadMore: after cursor, forward order
-		const loadNextAst: Select<Table> = mkSelect(this.schema, cursorCols, {
+		const loadNextAst: Select<Table> = mkSelect(this.schema, selectCols, {
 			where: ands([
 				...(filter ? [filter] : []),
-				mkGT(
-					cursorAsTuple,
-					mkCursorParams(
-						(context: PageParameter<Table, Cursor, true>) => context.cursor,
-					),
+				mkCursorCondition(
+					this.schema,
+					orderBy,
+					"after",
+					(context: PageParameter<Table, Cursor, true>) => context.cursor,
 				),
 			]),
 			orderBy: orderBy.map((o) => ({
@@ -383,14 +492,14 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 		});
 
 		// for loadPrevious: before cursor, reverse order
-		const loadPreviousAst: Select<Table> = mkSelect(this.schema, cursorCols, {
+		const loadPreviousAst: Select<Table> = mkSelect(this.schema, selectCols, {
 			where: ands([
 				...(filter ? [filter] : []),
-				mkLT(
-					cursorAsTuple,
-					mkCursorParams(
-						(context: PageParameter<Table, Cursor, true>) => context.cursor,
-					),
+				mkCursorCondition(
+					this.schema,
+					orderBy,
+					"before",
+					(context: PageParameter<Table, Cursor, true>) => context.cursor,
 				),
 			]),
 			orderBy: orderBy.map((o) => ({
@@ -429,14 +538,38 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 			{
 				where: ands([
 					...(filter ? [filter] : []),
-					mkGT(
-						cursorAsTuple,
-						mkCursorParams((context: { after: Cursor }) => context.after),
+					mkCursorCondition(
+						this.schema,
+						orderBy,
+						"after",
+						(context: { after: Cursor }) => context.after,
 					),
 				]),
 			},
 		);
 
+		// for offset pages: the rows from a position on
+		const loadAtAst: Select<Table> = mkSelect(this.schema, selectCols, {
+			where: filter,
+			orderBy: orderBy.map((o) => ({
+				column: o.column,
+				direction: o.direction,
+			})),
+			limit: mkParameter((context: { limit: number }) => context.limit),
+			offset: mkParameter((context: { offset: number }) => context.offset),
+		});
+
+		// for indexOf: the row with the key, if it passes the filter
+		const findKeyAst: Select<Table> = mkSelect(this.schema, selectCols, {
+			where: ands([
+				...(filter ? [filter] : []),
+				mkEq(
+					mkPkColumns(this.schema),
+					mkPkParams(this.schema, (key: PrimaryKeyRecord<Table>) => key),
+				),
+			]),
+		});
+
 		// Count rows before the cursor (for backward pagination)
 		const countBeforeAst: Select<Table> = mkSelect(
 			this.schema,
@@ -450,9 +583,11 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 			{
 				where: ands([
 					...(filter ? [filter] : []),
-					mkLT(
-						cursorAsTuple,
-						mkCursorParams((context: { before: Cursor }) => context.before),
+					mkCursorCondition(
+						this.schema,
+						orderBy,
+						"before",
+						(context: { before: Cursor }) => context.before,
 					),
 				]),
 			},
@@ -466,6 +601,70 @@ export class BetterSqlite3Storage<Table extends TableSchemaBase>
 			countTotal: this.prepareQueryOne(totalCountAst),
 			countAfter: this.prepareQueryOne(countAfterAst),
 			countBefore: this.prepareQueryOne(countBeforeAst),
+			loadAt: this.prepareQueryAll(loadAtAst),
+			findKey: this.prepareQueryOne(findKeyAst),
 		};
 	}
 }
+
+/**
+ * Matches the rows strictly after or before the cursor in `orderBy` order.
+ * NULL sorts first, as in SQLite. A row-value comparison yields NULL as soon
+ * as a NULL is involved, so orderings over nullable columns are expanded
+ * into the lexicographic OR-chain with NULL-aware comparisons instead.
+ */
+function mkCursorCondition<
+	Table extends TableSchemaBase,
+	Cursor extends PrimaryKeyRecord<Table>,
+	Context,
+>(
+	schema: Table,
+	orderBy: readonly {
+		column: string & keyof Cursor;
+		direction: "asc" | "desc";
+	}[],
+	side: "after" | "before",
+	getCursor: (context: Context) => Cursor,
+): Expression<Table> {
+	const keys = orderBy.map((o) => ({
+		column: mkColumn(o.column),
+		param: mkParameter((context: Context) => getCursor(context)[o.column]),
+		// Whether the rows on this side hold greater values in the column
+		greater: (side === "after") === (o.direction === "asc"),
+		nullable: schema.columns[o.column]?.nullable === true,
+	}));
+
+	// A row-value comparison needs every column going the same way
+	if (keys.every((key) => !key.nullable && key.greater === keys[0]?.greater)) {
+		const columns = mkTuple(keys.map((key) => key.column));
+		const params = mkTuple(keys.map((key) => key.param));
+		return keys[0]?.greater ? mkGT(columns, params) : mkLT(columns, params);
+	}
+
+	const conditions = keys.map(({ column, param, greater, nullable }, i) => {
+		let beyond = greater ? mkGT(column, param) : mkLT(column, param);
+		if (nullable) {
+			beyond = mkOr(
+				beyond,
+				greater
+					? mkAnd(mkIsNotNull(column), mkIsNull(param))
+					: mkAnd(mkIsNull(column), mkIsNotNull(param)),
+			);
+		}
+		// The preceding columns are tied with the cursor
+		return keys
+			.slice(0, i)
+			.reduceRight(
+				(rest, key) =>
+					mkAnd(
+						key.nullable
+							? mkIs(key.column, key.param)
+							: mkEq(key.column, key.param),
+						rest,
+					),
+				beyond,
+			);
+	});
+	// biome-ignore lint/style/noNonNullAssertion: <explanation>
+	return ors(conditions)! as Expression<Table>;
+}
@@ -57,3 +57,29 @@ describe("SqliteStorage.mutate", () => {
 		expect(storage.findUnique({ id: 2 })).toBeNull();
 	});
 });
+
+describe("SqliteStorage createTableIfNotExists", () => {
+	it("creates the table from the schema", () => {
+		const db = new Database(":memory:");
+		const storage = new BetterSqlite3Storage<UserTable>(userSchema, db, {
+			createTableIfNotExists: true,
+		});
+
+		storage.insert({ id: 1, name: "Alice" });
+		expect(storage.findUnique({ id: 1 })).toEqual({ id: 1, name: "Alice" });
+		expect(() => storage.insert({ id: 1, name: "Bob" })).toThrow(
+			/UNIQUE constraint failed/,
+		);
+	});
+
+	it("keeps an existing table and its rows", () => {
+		const db = new Database(":memory:");
+		db.exec("CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)");
+		db.exec("INSERT INTO users VALUES (1, 'Alice')");
+		const storage = new BetterSqlite3Storage<UserTable>(userSchema, db, {
+			createTableIfNotExists: true,
+		});
+
+		expect(storage.findUnique({ id: 1 })).toEqual({ id: 1, name: "Alice" });
+	});
+});
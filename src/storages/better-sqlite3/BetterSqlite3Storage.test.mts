@@ -8,10 +8,9 @@ import { BetterSqlite3Storage } from "./BetterSqlite3Storage.mjs";
 type UserTable = typeof userTableSchema;
 
 testStorageImplementation("SqliteStorage", () => {
-	const db = new Database(":memory:");
-	db.exec(`CREATE TABLE "User" (
-    id INTEGER PRIMARY KEY,
-    name TEXT
-  )`);
-	return new BetterSqlite3Storage<UserTable>(userTableSchema, db);
+	return new BetterSqlite3Storage<UserTable>(
+		userTableSchema,
+		new Database(":memory:"),
+		{ createTableIfNotExists: true },
+	);
 });
@@ -0,0 +1,212 @@
+import type { Expression, Parameterizable } from "../../RSql/Expression.mjs";
+import type { Join, Statement } from "../../RSql/RSql.mjs";
+import { columnCodecOf } from "../../core/codecs.mjs";
+import type {
+	ColumnCodec,
+	ColumnType,
+	TableSchemaBase,
+} from "../../types/TableSchema.mjs";
+
+/**
+ * The codecs of a table's columns, applied to the parameters of its
+ * statements and to the rows they read.
+ */
+export class RowCodec<Table extends TableSchemaBase> {
+	constructor(private readonly schema: Table) {
+		this.codecs = new Map(
+			Object.entries(schema.columns).map(([name, column]) => [
+				name,
+				columnCodecOf(column),
+			]),
+		);
+	}
+
+	decodeRow<R>(row: R, joins?: readonly Join[]): R {
+		const decoded: Record<string, unknown> = {};
+		for (const [column, stored] of Object.entries(row as object)) {
+			const codec = this.codecOf(column, joins);
+			decoded[column] =
+				codec && stored !== null ? codec.decode(stored) : stored;
+		}
+		return decoded as R;
+	}
+
+	/**
+	 * Rewrites the parameters of a statement that are bound to a column, either
+	 * as a value of it or by comparison with it, to encode their values.
+	 */
+	encodeStatement<S extends Statement<Table>>(statement: S): S {
+		switch (statement.kind) {
+			case "select":
+				return {
+					...statement,
+					where:
+						statement.where &&
+						this.encodeExpression(statement.where, statement.joins),
+				};
+			case "delete":
+				return {
+					...statement,
+					where: statement.where && this.encodeExpression(statement.where),
+				};
+			case "update":
+				return {
+					...statement,
+					set: this.encodeValues(statement.set),
+					where: statement.where && this.encodeExpression(statement.where),
+				};
+			case "insert":
+				return {
+					...statement,
+					values: this.encodeValues(statement.values),
+					onConflict: statement.onConflict && {
+						...statement.onConflict,
+						do:
+							statement.onConflict.do.kind === "nothing"
+								? statement.onConflict.do
+								: {
+										...statement.onConflict.do,
+										set: this.encodeValues(statement.onConflict.do.set),
+									},
+					},
+				};
+			case "createTable":
+			case "createIndex":
+				return statement;
+		}
+	}
+
+	// Whether reading the columns needs integers as bigint
+	readsBigInt(
+		columns: "*" | Expression<Table>[],
+		joins?: readonly Join[],
+	): boolean {
+		const names =
+			columns === "*"
+				? Object.keys(this.schema.columns)
+				: columns.flatMap((col) => (col.kind === "column" ? [col.name] : []));
+		return names.some((name) => this.columnOf(name, joins)?.kind === "bigint");
+	}
+
+	// Qualified names refer to this table or to a joined one by its alias
+	private columnOf(
+		name: string,
+		joins: readonly Join[] = [],
+	): ColumnType | undefined {
+		const [qualifier, column] = splitQualified(name);
+		if (qualifier === undefined || qualifier === this.schema.name) {
+			return this.schema.columns[column];
+		}
+		return joins.find((join) => join.as === qualifier)?.schema.columns[column];
+	}
+
+	private codecOf(
+		name: string,
+		joins?: readonly Join[],
+	): ColumnCodec<unknown, unknown> | undefined {
+		const [qualifier, column] = splitQualified(name);
+		if (qualifier === undefined || qualifier === this.schema.name) {
+			return this.codecs.get(column);
+		}
+		const joined = this.columnOf(name, joins);
+		return joined && columnCodecOf(joined);
+	}
+
+	private encodeValues<V extends Partial<Record<string, Parameterizable>>>(
+		values: V,
+	): V {
+		return Object.fromEntries(
+			Object.entries(values).map(([column, value]) => [
+				column,
+				value && this.encodeParameterizable(value, column),
+			]),
+		) as V;
+	}
+
+	private encodeExpression(
+		expr: Expression<Table>,
+		joins?: readonly Join[],
+	): Expression<Table> {
+		switch (expr.kind) {
+			case "binOp":
+				return {
+					...expr,
+					left: this.encodeOperand(expr.left, expr.right, joins),
+					right: this.encodeOperand(expr.right, expr.left, joins),
+				};
+			case "unOp":
+				return {
+					...expr,
+					expression: this.encodeExpression(expr.expression, joins),
+				};
+			case "function":
+				return {
+					...expr,
+					args: expr.args.map((arg) => this.encodeExpression(arg, joins)),
+				};
+			case "tuple":
+				return {
+					...expr,
+					expressions: expr.expressions.map((elem) =>
+						this.encodeExpression(elem, joins),
+					),
+				};
+			default:
+				return expr;
+		}
+	}
+
+	// Encodes an operand against the other side of a binary operator
+	private encodeOperand(
+		operand: Expression<Table>,
+		other: Expression<Table>,
+		joins?: readonly Join[],
+	): Expression<Table> {
+		if (
+			(operand.kind === "constant" || operand.kind === "parameter") &&
+			other.kind === "column"
+		) {
+			return this.encodeParameterizable(operand, other.name, joins);
+		}
+		if (
+			operand.kind === "tuple" &&
+			other.kind === "tuple" &&
+			operand.expressions.length === other.expressions.length
+		) {
+			return {
+				...operand,
+				expressions: operand.expressions.map((elem, i) =>
+					// biome-ignore lint/style/noNonNullAssertion: <explanation>
+					this.encodeOperand(elem, other.expressions[i]!, joins),
+				),
+			};
+		}
+		return this.encodeExpression(operand, joins);
+	}
+
+	private encodeParameterizable(
+		param: Parameterizable,
+		column: string,
+		joins?: readonly Join[],
+	): Parameterizable {
+		const codec = this.codecOf(column, joins);
+		if (codec === undefined) return param;
+		const encode = (value: unknown) =>
+			value === null || value === undefined ? value : codec.encode(value);
+
+		return param.kind === "constant"
+			? { ...param, value: encode(param.value) }
+			: { ...param, getValue: (context) => encode(param.getValue(context)) };
+	}
+
+	private codecs: Map<string, ColumnCodec<unknown, unknown>>;
+}
+
+function splitQualified(
+	name: string,
+): [qualifier: string | undefined, column: string] {
+	const dot = name.indexOf(".");
+	return dot === -1
+		? [undefined, name]
+		: [name.slice(0, dot), name.slice(dot + 1)];
+}
@@ -0,0 +1,220 @@
+import type { Database } from "better-sqlite3";
+import { columnCodecOf } from "../../core/codecs.mjs";
+import type { ColumnType, TableSchemaBase } from "../../types/TableSchema.mjs";
+import { migrationsTableName } from "./migration.mjs";
+import {
+	readColumnDefinitions,
+	readGeneratedSql,
+	readIndexColumns,
+	readIndexList,
+	readPrimaryKey,
+	readTableInfo,
+} from "./pragma.mjs";
+
+export type IntrospectionIssue = {
+	table: string;
+	column?: string;
+	message: string;
+};
+
+export type IntrospectionResult = {
+	schemas: TableSchemaBase[];
+	issues: IntrospectionIssue[];
+};
+
+/**
+ * Reads the tables of a database back into schemas.
+ * Columns whose type can't be mapped to a `ColumnType` and tables without a
+ * usable key are left out and reported in `issues`.
+ */
+export function introspect(database: Database): IntrospectionResult {
+	const tables = database
+		.prepare(
+			"SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name",
+		)
+		.all() as { name: string }[];
+
+	const schemas: TableSchemaBase[] = [];
+	const issues: IntrospectionIssue[] = [];
+	for (const { name: table } of tables) {
+		if (table === migrationsTableName) continue;
+
+		const info = readTableInfo(database, table);
+		const definitions = readColumnDefinitions(database, table);
+		const columns: Record<string, ColumnType> = {};
+		for (const col of info) {
+			const kind = columnKindOf(col.type);
+			if (kind === undefined) {
+				issues.push({
+					table,
+					column: col.name,
+					message: `unknown type ${col.type === "" ? "(none)" : col.type}`,
+				});
+				continue;
+			}
+			// SQLite lets primary key columns hold NULL unless they are declared NOT
+			// NULL, but a key with NULLs can't identify a row anyway
+			const column: ColumnType =
+				col.notnull || col.pk > 0 ? { kind } : { kind, nullable: true };
+			if (col.hidden === 2 || col.hidden === 3) {
+				const sql = readGeneratedSql(definitions.get(col.name) ?? "");
+				if (sql === undefined) {
+					issues.push({
+						table,
+						column: col.name,
+						message: "generated expression can't be read",
+					});
+					continue;
+				}
+				column.generated =
+					col.hidden === 3
+						? { kind: "computed", sql, stored: true }
+						: { kind: "computed", sql };
+			}
+			const columnDefault =
+				col.dflt_value === null ? undefined : defaultOf(col.dflt_value, column);
+			if (columnDefault !== undefined) column.default = columnDefault;
+			columns[col.name] = column;
+		}
+
+		let primaryKey = readPrimaryKey(info);
+		if (primaryKey.length === 0) {
+			const unique = readIndexList(database, table).find(
+				(index) => index.unique && !index.partial,
+			);
+			if (unique === undefined) {
+				issues.push({ table, message: "no primary key or unique index" });
+				continue;
+			}
+			primaryKey = readIndexColumns(database, unique.name);
+			issues.push({
+				table,
+				message: `no primary key, using unique index ${unique.name} instead`,
+			});
+		}
+		const unmapped = primaryKey.filter((col) => !(col in columns));
+		if (unmapped.length > 0) {
+			issues.push({
+				table,
+				message: `key column ${unmapped.join(", ")} has an unknown type`,
+			});
+			continue;
+		}
+
+		schemas.push({ name: table, columns, primaryKey });
+	}
+
+	return { schemas, issues };
+}
+
+/**
+ * Emits TypeScript source declaring one `as const` schema per table, so that
+ * `Row<typeof schema>` is typed right away.
+ */
+export function generateSchemaSource(
+	schemas: readonly TableSchemaBase[],
+	options: { importFrom?: string } = {},
+): string {
+	const lines = [
+		`import type { TableSchemaBase } from ${JSON.stringify(options.importFrom ?? "rx-table")};`,
+	];
+	for (const schema of schemas) {
+		lines.push(
+			"",
+			`export const ${identifierOf(schema.name)}Schema = {`,
+			`\tname: ${JSON.stringify(schema.name)},`,
+			"\tcolumns: {",
+			...Object.entries(schema.columns).map(
+				([name, column]) =>
+					`\t\t${propertyKeyOf(name)}: { ${columnSourceOf(column)} },`,
+			),
+			"\t},",
+			`\tprimaryKey: [${schema.primaryKey.map((pk) => JSON.stringify(pk)).join(", ")}] as const,`,
+			"} satisfies TableSchemaBase;",
+		);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+function columnSourceOf(column: ColumnType): string {
+	const properties = [`kind: ${JSON.stringify(column.kind)}`];
+	if (column.nullable) properties.push("nullable: true");
+	if (column.default?.kind === "constant") {
+		const { value } = column.default;
+		properties.push(
+			`default: { kind: "constant", value: ${value instanceof Date ? `new Date(${JSON.stringify(value.toISOString())})` : JSON.stringify(value)} }`,
+		);
+	} else if (column.default?.kind === "sql") {
+		properties.push(
+			`default: { kind: "sql", sql: ${JSON.stringify(column.default.sql)} }`,
+		);
+	}
+	if (column.generated?.kind === "computed") {
+		properties.push(
+			`generated: { kind: "computed", sql: ${JSON.stringify(column.generated.sql)}${column.generated.stored ? ", stored: true" : ""} }`,
+		);
+	}
+	return properties.join(", ");
+}
+
+// Reads a default as SQLite keeps it: literals become constants, decoded as
+// the column reads them, and anything else stays an SQL expression
+function defaultOf(
+	written: string,
+	column: ColumnType,
+): ColumnType["default"] | undefined {
+	if (/^NULL$/i.test(written)) return undefined;
+	let value: unknown;
+	if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(written)) {
+		value = Number(written);
+	} else if (/^'(?:[^']|'')*'$/.test(written)) {
+		value = written.slice(1, -1).replaceAll("''", "'");
+	} else if (/^(TRUE|FALSE)$/i.test(written)) {
+		value = /^TRUE$/i.test(written) ? 1 : 0;
+	} else {
+		return { kind: "sql", sql: written };
+	}
+	return { kind: "constant", value: columnCodecOf(column).decode(value) };
+}
+
+// Follows SQLite's rules for determining column affinity, with a few common
+// type names recognized as booleans and dates
+function columnKindOf(type: string): ColumnType["kind"] | undefined {
+	const upper = type.toUpperCase();
+	if (upper === "BOOLEAN" || upper === "BOOL") return "boolean";
+	if (upper === "DATE" || upper === "DATETIME" || upper === "TIMESTAMP")
+		return "date";
+	if (upper.includes("INT")) return "number";
+	if (
+		upper.includes("CHAR") ||
+		upper.includes("CLOB") ||
+		upper.includes("TEXT")
+	)
+		return "string";
+	if (upper === "" || upper.includes("BLOB")) return undefined;
+	if (
+		upper.includes("REAL") ||
+		upper.includes("FLOA") ||
+		upper.includes("DOUB") ||
+		upper.startsWith("NUMERIC") ||
+		upper.startsWith("DECIMAL")
+	)
+		return "number";
+	return undefined;
+}
+
+function identifierOf(name: string): string {
+	const words = name.split(/[^A-Za-z0-9]+/).filter((word) => word !== "");
+	const camel = words
+		.map((word, i) =>
+			i === 0
+				? word.charAt(0).toLowerCase() + word.slice(1)
+				: word.charAt(0).toUpperCase() + word.slice(1),
+		)
+		.join("");
+	return /^[0-9]/.test(camel) ? `_${camel}` : camel;
+}
+
+function propertyKeyOf(name: string): string {
+	return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -0,0 +1,227 @@
+import Database from "better-sqlite3";
+import { describe, expect, it } from "vitest";
+import type { TableSchemaBase } from "../../types/TableSchema.mjs";
+import { generateSchemaSource, introspect } from "./introspect.mjs";
+import { applyMigration, planMigration } from "./migration.mjs";
+
+describe("introspect", () => {
+	it("reads tables, column kinds and composite primary keys", () => {
+		const db = new Database(":memory:");
+		db.exec(`
+			CREATE TABLE users (id INTEGER PRIMARY KEY, name VARCHAR(20), score REAL);
+			CREATE TABLE memberships (
+				user_id INTEGER,
+				group_id INTEGER,
+				active BOOLEAN,
+				joined_at DATETIME,
+				PRIMARY KEY (user_id, group_id)
+			);
+		`);
+
+		expect(introspect(db)).toEqual({
+			schemas: [
+				{
+					name: "memberships",
+					columns: {
+						user_id: { kind: "number" },
+						group_id: { kind: "number" },
+						active: { kind: "boolean", nullable: true },
+						joined_at: { kind: "date", nullable: true },
+					},
+					primaryKey: ["user_id", "group_id"],
+				},
+				{
+					name: "users",
+					columns: {
+						id: { kind: "number" },
+						name: { kind: "string", nullable: true },
+						score: { kind: "number", nullable: true },
+					},
+					primaryKey: ["id"],
+				},
+			],
+			issues: [],
+		});
+	});
+
+	it("reports columns with unknown types instead of mapping them", () => {
+		const db = new Database(":memory:");
+		db.exec("CREATE TABLE files (id INTEGER PRIMARY KEY, data BLOB, extra)");
+
+		const { schemas, issues } = introspect(db);
+		expect(schemas[0]?.columns).toEqual({ id: { kind: "number" } });
+		expect(issues).toEqual([
+			{ table: "files", column: "data", message: "unknown type BLOB" },
+			{ table: "files", column: "extra", message: "unknown type (none)" },
+		]);
+	});
+
+	it("falls back to a unique index for tables without a primary key", () => {
+		const db = new Database(":memory:");
+		db.exec("CREATE TABLE tags (slug TEXT NOT NULL UNIQUE, label TEXT)");
+
+		const { schemas, issues } = introspect(db);
+		expect(schemas[0]?.primaryKey).toEqual(["slug"]);
+		expect(issues).toEqual([
+			{
+				table: "tags",
+				message:
+					"no primary key, using unique index sqlite_autoindex_tags_1 instead",
+			},
+		]);
+	});
+
+	it("skips tables without any key", () => {
+		const db = new Database(":memory:");
+		db.exec("CREATE TABLE logs (message TEXT)");
+
+		expect(introspect(db)).toEqual({
+			schemas: [],
+			issues: [{ table: "logs", message: "no primary key or unique index" }],
+		});
+	});
+
+	it("reads defaults and generated columns", () => {
+		const db = new Database(":memory:");
+		db.exec(`
+			CREATE TABLE tasks (
+				id INTEGER PRIMARY KEY,
+				title TEXT NOT NULL DEFAULT 'it''s new',
+				done BOOLEAN NOT NULL DEFAULT 0,
+				priority REAL DEFAULT -1.5,
+				created_at DATETIME DEFAULT (datetime('now')),
+				label TEXT GENERATED ALWAYS AS (upper(title)) VIRTUAL,
+				slug TEXT GENERATED ALWAYS AS (lower(title)) STORED
+			);
+		`);
+
+		expect(introspect(db).schemas[0]?.columns).toEqual({
+			id: { kind: "number" },
+			title: {
+				kind: "string",
+				default: { kind: "constant", value: "it's new" },
+			},
+			done: { kind: "boolean", default: { kind: "constant", value: false } },
+			priority: {
+				kind: "number",
+				nullable: true,
+				default: { kind: "constant", value: -1.5 },
+			},
+			created_at: {
+				kind: "date",
+				nullable: true,
+				default: { kind: "sql", sql: "datetime('now')" },
+			},
+			label: {
+				kind: "string",
+				nullable: true,
+				generated: { kind: "computed", sql: "upper(title)" },
+			},
+			slug: {
+				kind: "string",
+				nullable: true,
+				generated: { kind: "computed", sql: "lower(title)", stored: true },
+			},
+		});
+	});
+
+	it("reads back the defaults and generated columns a migration creates", () => {
+		const db = new Database(":memory:");
+		const schema = {
+			name: "tasks",
+			columns: {
+				id: { kind: "number" },
+				title: { kind: "string", default: { kind: "constant", value: "new" } },
+				priority: { kind: "number", default: { kind: "constant", value: 1 } },
+				label: {
+					kind: "string",
+					nullable: true,
+					generated: { kind: "computed", sql: "upper(title)" },
+				},
+			},
+			primaryKey: ["id"],
+		} satisfies TableSchemaBase;
+		applyMigration(db, planMigration(db, [schema]));
+
+		const { schemas } = introspect(db);
+		expect(schemas).toEqual([schema]);
+		expect(planMigration(db, schemas).steps).toEqual([]);
+	});
+
+	it("ignores the migrations table", () => {
+		const db = new Database(":memory:");
+		applyMigration(
+			db,
+			planMigration(db, [
+				{
+					name: "users",
+					columns: { id: { kind: "number" } },
+					primaryKey: ["id"],
+				},
+			]),
+		);
+
+		expect(introspect(db).schemas.map((schema) => schema.name)).toEqual([
+			"users",
+		]);
+	});
+});
+
+describe("generateSchemaSource", () => {
+	it("emits a schema literal with an `as const` primary key", () => {
+		const source = generateSchemaSource([
+			{
+				name: "order_items",
+				columns: {
+					order_id: { kind: "number" },
+					"unit price": { kind: "number", nullable: true },
+				},
+				primaryKey: ["order_id"],
+			},
+		]);
+
+		expect(source).toBe(`import type { TableSchemaBase } from "rx-table";
+
+export const orderItemsSchema = {
+	name: "order_items",
+	columns: {
+		order_id: { kind: "number" },
+		"unit price": { kind: "number", nullable: true },
+	},
+	primaryKey: ["order_id"] as const,
+} satisfies TableSchemaBase;
+`);
+	});
+
+	it("emits defaults and generated columns", () => {
+		const source = generateSchemaSource([
+			{
+				name: "events",
+				columns: {
+					id: { kind: "number" },
+					at: {
+						kind: "date",
+						default: { kind: "constant", value: new Date(0) },
+					},
+					seen: { kind: "boolean", default: { kind: "sql", sql: "0" } },
+					day: {
+						kind: "string",
+						nullable: true,
+						generated: { kind: "computed", sql: "date(at)", stored: true },
+					},
+				},
+				primaryKey: ["id"],
+			},
+		]);
+
+		expect(source).toContain(
+			'\t\tat: { kind: "date", default: { kind: "constant", value: new Date("1970-01-01T00:00:00.000Z") } },',
+		);
+		expect(source).toContain(
+			'\t\tseen: { kind: "boolean", default: { kind: "sql", sql: "0" } },',
+		);
+		expect(source).toContain(
+			'\t\tday: { kind: "string", nullable: true, generated: { kind: "computed", sql: "date(at)", stored: true } },',
+		);
+	});
+});
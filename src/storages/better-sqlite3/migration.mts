@@ -0,0 +1,334 @@
+import type { Database } from "better-sqlite3";
+import type { ColumnDefinition, CreateIndex } from "../../RSql/RSql.mjs";
+import {
+	compileStatementToSql,
+	renderColumnDefinition,
+	renderLiteral,
+} from "../../RSql/compileToSql.mjs";
+import { writableColumns } from "../../RSql/mkHelpers.mjs";
+import {
+	mkColumnDefinition,
+	mkCreateIndexes,
+	mkCreateTable,
+} from "../../RSql/mks.mjs";
+import type { ForeignKey, TableSchemaBase } from "../../types/TableSchema.mjs";
+import {
+	readColumnDefinitions,
+	readForeignKeyList,
+	readGeneratedSql,
+	readIndexColumns,
+	readIndexList,
+	readPrimaryKey,
+	readTableInfo,
+} from "./pragma.mjs";
+
+export type MigrationStep =
+	| { kind: "createTable"; table: string }
+	| { kind: "addColumn"; table: string; column: ColumnDefinition }
+	| { kind: "dropColumn"; table: string; column: string }
+	| { kind: "rebuildTable"; table: string; reasons: string[] }
+	| { kind: "createIndex"; table: string; index: string }
+	| { kind: "dropIndex"; table: string; index: string };
+
+/**
+ * What it takes to bring a database in line with a set of schemas.
+ * `statements` is the SQL `applyMigration` runs, in order.
+ */
+export type MigrationPlan = {
+	steps: MigrationStep[];
+	statements: string[];
+};
+
+export const migrationsTableName = "_rx_table_migrations";
+
+/**
+ * Compares the schemas against the tables in the database and plans the
+ * changes. Nothing is written to the database.
+ */
+export function planMigration(
+	database: Database,
+	schemas: readonly TableSchemaBase[],
+): MigrationPlan {
+	const steps: MigrationStep[] = [];
+	const statements: string[] = [];
+	const createIndexes = (indexes: CreateIndex[]) => {
+		for (const index of indexes) {
+			steps.push({
+				kind: "createIndex",
+				table: index.table,
+				index: index.name,
+			});
+			statements.push(compileStatementToSql(index)[0]);
+		}
+	};
+
+	for (const schema of schemas) {
+		const indexes = mkCreateIndexes(schema);
+		const existing = readTableInfo(database, schema.name);
+		if (existing.length === 0) {
+			steps.push({ kind: "createTable", table: schema.name });
+			statements.push(compileStatementToSql(mkCreateTable(schema))[0]);
+			createIndexes(indexes);
+			continue;
+		}
+
+		const declared = Object.entries(schema.columns).map(([name, column]) =>
+			mkColumnDefinition(name, column),
+		);
+		const definitions = readColumnDefinitions(database, schema.name);
+		const reasons: string[] = [];
+		const added: ColumnDefinition[] = [];
+		const dropped: string[] = [];
+
+		const existingPrimaryKey = readPrimaryKey(existing);
+		if (existingPrimaryKey.join() !== schema.primaryKey.join()) {
+			reasons.push(
+				`primary key changed from (${existingPrimaryKey.join(", ")}) to (${schema.primaryKey.join(", ")})`,
+			);
+		}
+		for (const column of declared) {
+			const current = existing.find((col) => col.name === column.name);
+			if (current === undefined) {
+				// SQLite can't add a NOT NULL column without a constant default value,
+				// nor a stored generated column
+				if (column.notNull && column.default?.kind !== "constant") {
+					reasons.push(`column ${column.name} is added as NOT NULL`);
+				}
+				if (column.generated?.stored) {
+					reasons.push(`column ${column.name} is added as a stored column`);
+				}
+				added.push(column);
+				continue;
+			}
+			if (current.type.toUpperCase() !== column.type) {
+				reasons.push(
+					`column ${column.name} changed type from ${current.type} to ${column.type}`,
+				);
+			}
+			if (Boolean(current.hidden) !== Boolean(column.generated)) {
+				reasons.push(
+					`column ${column.name} ${column.generated ? "became" : "is no longer"} generated`,
+				);
+			}
+			if (Boolean(current.notnull) !== Boolean(column.notNull)) {
+				reasons.push(
+					`column ${column.name} ${column.notNull ? "became" : "is no longer"} NOT NULL`,
+				);
+			}
+			// SQLite keeps a default as written, without the parentheses around
+			// an expression
+			const declaredDefault =
+				column.default?.kind === "constant"
+					? renderLiteral(column.default.value)
+					: column.default?.sql;
+			if ((declaredDefault ?? null) !== current.dflt_value) {
+				reasons.push(`column ${column.name} changed its default`);
+			}
+			const definition = definitions.get(column.name) ?? "";
+			if (
+				column.generated &&
+				current.hidden !== 0 &&
+				(readGeneratedSql(definition) !== column.generated.sql ||
+					(current.hidden === 3) !== Boolean(column.generated.stored))
+			) {
+				reasons.push(`column ${column.name} changed how it is generated`);
+			}
+			const checked = readCheckedValues(definition, column.name);
+			if (!isSameValueSet(checked, column.values)) {
+				reasons.push(`column ${column.name} changed its allowed values`);
+			}
+		}
+		// SQLite can't alter the constraints of a table
+		const existingForeignKeys = readForeignKeys(database, schema.name);
+		const declaredForeignKeys = (schema.foreignKeys ?? []).map(
+			describeForeignKey,
+		);
+		if (
+			existingForeignKeys.length !== declaredForeignKeys.length ||
+			existingForeignKeys.some((fk) => !declaredForeignKeys.includes(fk))
+		) {
+			reasons.push("foreign keys changed");
+		}
+		for (const current of existing) {
+			if (declared.some((col) => col.name === current.name)) continue;
+			// Primary key columns can only go away with a rebuild
+			if (current.pk > 0) {
+				reasons.push(`primary key column ${current.name} is dropped`);
+			}
+			dropped.push(current.name);
+		}
+
+		if (reasons.length > 0) {
+			steps.push({ kind: "rebuildTable", table: schema.name, reasons });
+			statements.push(
+				...rebuildTable(
+					schema,
+					existing.map((col) => col.name),
+				),
+			);
+			// Dropping the old table dropped its indexes as well
+			createIndexes(indexes);
+			continue;
+		}
+
+		// Indexes go first, as SQLite won't drop a column an index refers to
+		const existingIndexes = readIndexes(database, schema.name);
+		const isSameIndex = (a: CreateIndex, b: CreateIndex) =>
+			a.name === b.name &&
+			a.unique === b.unique &&
+			a.columns.join() === b.columns.join();
+		for (const index of existingIndexes) {
+			if (indexes.some((declared) => isSameIndex(declared, index))) continue;
+			steps.push({ kind: "dropIndex", table: schema.name, index: index.name });
+			statements.push(`DROP INDEX ${index.name}`);
+		}
+		for (const column of added) {
+			steps.push({ kind: "addColumn", table: schema.name, column });
+			statements.push(
+				`ALTER TABLE ${schema.name} ADD COLUMN ${renderColumnDefinition(column)}`,
+			);
+		}
+		for (const column of dropped) {
+			steps.push({ kind: "dropColumn", table: schema.name, column });
+			statements.push(`ALTER TABLE ${schema.name} DROP COLUMN ${column}`);
+		}
+		createIndexes(
+			indexes.filter(
+				(declared) =>
+					!existingIndexes.some((index) => isSameIndex(declared, index)),
+			),
+		);
+	}
+
+	return { steps, statements };
+}
+
+/**
+ * Runs a plan in a single transaction and records it in the migrations table
+ * and `user_version`.
+ */
+export function applyMigration(database: Database, plan: MigrationPlan): void {
+	if (plan.steps.length === 0) return;
+
+	// Dropping a table while rebuilding it would otherwise cascade to the rows
+	// referring to it. The pragma has no effect inside a transaction.
+	const foreignKeys = database.pragma("foreign_keys", { simple: true });
+	database.pragma("foreign_keys = OFF");
+	try {
+		migrate(database, plan);
+	} finally {
+		database.pragma(`foreign_keys = ${foreignKeys}`);
+	}
+}
+
+function migrate(database: Database, plan: MigrationPlan): void {
+	database.transaction(() => {
+		for (const sql of plan.statements) {
+			database.exec(sql);
+		}
+		database.exec(`CREATE TABLE IF NOT EXISTS ${migrationsTableName} (
+			version INTEGER PRIMARY KEY,
+			steps TEXT NOT NULL,
+			applied_at TEXT NOT NULL
+		)`);
+		const version =
+			(database.pragma("user_version", { simple: true }) as number) + 1;
+		database
+			.prepare(
+				`INSERT INTO ${migrationsTableName} (version, steps, applied_at) VALUES (?, ?, ?)`,
+			)
+			.run(version, JSON.stringify(plan.steps), new Date().toISOString());
+		database.pragma(`user_version = ${version}`);
+		const violations = database.pragma("foreign_key_check") as {
+			table: string;
+		}[];
+		if (violations.length > 0) {
+			throw new Error(
+				`Migration leaves rows of ${violations[0]?.table} referring to missing rows`,
+			);
+		}
+	})();
+}
+
+// Copies the surviving columns into a table created from the schema
+function rebuildTable(
+	schema: TableSchemaBase,
+	existingColumns: string[],
+): string[] {
+	const temporary = `_${schema.name}_rebuild`;
+	// Generated columns are computed again rather than copied
+	const copied = writableColumns(schema)
+		.filter((col) => existingColumns.includes(col))
+		.join(", ");
+	return [
+		compileStatementToSql(mkCreateTable({ ...schema, name: temporary }))[0],
+		`INSERT INTO ${temporary} (${copied}) SELECT ${copied} FROM ${schema.name}`,
+		`DROP TABLE ${schema.name}`,
+		`ALTER TABLE ${temporary} RENAME TO ${schema.name}`,
+	];
+}
+
+// Indexes created with CREATE INDEX, leaving out the ones backing constraints
+function readIndexes(database: Database, table: string): CreateIndex[] {
+	return readIndexList(database, table)
+		.filter((index) => index.origin === "c")
+		.map((index) => ({
+			kind: "createIndex",
+			name: index.name,
+			table,
+			columns: readIndexColumns(database, index.name),
+			unique: Boolean(index.unique),
+		}));
+}
+
+function readForeignKeys(database: Database, table: string): string[] {
+	const byId = new Map<number, ForeignKey>();
+	for (const row of readForeignKeyList(database, table).sort(
+		(a, b) => a.seq - b.seq,
+	)) {
+		const foreignKey = byId.get(row.id) ?? {
+			columns: [],
+			references: { table: row.table, columns: [] },
+			onDelete: row.on_delete.toLowerCase() as ForeignKey["onDelete"],
+			onUpdate: row.on_update.toLowerCase() as ForeignKey["onUpdate"],
+		};
+		byId.set(row.id, {
+			...foreignKey,
+			columns: [...foreignKey.columns, row.from],
+			references: {
+				...foreignKey.references,
+				columns: [...foreignKey.references.columns, row.to],
+			},
+		});
+	}
+	return Array.from(byId.values(), describeForeignKey);
+}
+
+// SQLite reports a missing action as NO ACTION
+function describeForeignKey(foreignKey: ForeignKey): string {
+	return `(${foreignKey.columns.join()}) ${foreignKey.references.table} (${foreignKey.references.columns.join()}) ${foreignKey.onDelete ?? "no action"} ${foreignKey.onUpdate ?? "no action"}`;
+}
+
+// The values of a `CHECK (column IN (...))` constraint, as enum columns
+// declare it
+function readCheckedValues(
+	definition: string,
+	column: string,
+): string[] | undefined {
+	const check = definition.match(
+		new RegExp(`CHECK\\s*\\(\\s*"?${column}"?\\s+IN\\s*\\((.*)\\)\\s*\\)`, "i"),
+	);
+	if (!check) return undefined;
+	const literals = (check[1] ?? "").matchAll(/'((?:[^']|'')*)'/g);
+	return Array.from(literals, (literal) =>
+		(literal[1] ?? "").replaceAll("''", "'"),
+	);
+}
+
+function isSameValueSet(
+	a: readonly string[] | undefined,
+	b: readonly string[] | undefined,
+): boolean {
+	if (a === undefined || b === undefined) return a === b;
+	return a.length === b.length && a.every((value) => b.includes(value));
+}
@@ -0,0 +1,381 @@
+import Database from "better-sqlite3";
+import { describe, expect, it } from "vitest";
+import type { TableSchemaBase } from "../../types/TableSchema.mjs";
+import {
+	applyMigration,
+	migrationsTableName,
+	planMigration,
+} from "./migration.mjs";
+import { readTableInfo } from "./pragma.mjs";
+
+const userSchema = {
+	name: "users",
+	columns: {
+		id: { kind: "number" },
+		name: { kind: "string" },
+	},
+	primaryKey: ["id"] as const,
+} satisfies TableSchemaBase;
+
+describe("planMigration", () => {
+	it("creates a missing table", () => {
+		const db = new Database(":memory:");
+		const plan = planMigration(db, [userSchema]);
+		expect(plan).toEqual({
+			steps: [{ kind: "createTable", table: "users" }],
+			statements: [
+				"CREATE TABLE users (id NUMERIC NOT NULL, name TEXT NOT NULL, PRIMARY KEY (id))",
+			],
+		});
+	});
+
+	it("plans nothing for a table that matches the schema", () => {
+		const db = new Database(":memory:");
+		applyMigration(db, planMigration(db, [userSchema]));
+		expect(planMigration(db, [userSchema])).toEqual({
+			steps: [],
+			statements: [],
+		});
+	});
+
+	it("drops a column that the schema no longer declares", () => {
+		const db = new Database(":memory:");
+		db.exec(
+			"CREATE TABLE users (id NUMERIC NOT NULL, name TEXT NOT NULL, age NUMERIC, PRIMARY KEY (id))",
+		);
+		expect(planMigration(db, [userSchema])).toEqual({
+			steps: [{ kind: "dropColumn", table: "users", column: "age" }],
+			statements: ["ALTER TABLE users DROP COLUMN age"],
+		});
+	});
+
+	it("rebuilds the table when a column changes type", () => {
+		const db = new Database(":memory:");
+		db.exec(
+			"CREATE TABLE users (id INTEGER NOT NULL, name TEXT NOT NULL, PRIMARY KEY (id))",
+		);
+		expect(planMigration(db, [userSchema])).toEqual({
+			steps: [
+				{
+					kind: "rebuildTable",
+					table: "users",
+					reasons: ["column id changed type from INTEGER to NUMERIC"],
+				},
+			],
+			statements: [
+				"CREATE TABLE _users_rebuild (id NUMERIC NOT NULL, name TEXT NOT NULL, PRIMARY KEY (id))",
+				"INSERT INTO _users_rebuild (id, name) SELECT id, name FROM users",
+				"DROP TABLE users",
+				"ALTER TABLE _users_rebuild RENAME TO users",
+			],
+		});
+	});
+
+	it("rebuilds the table when the primary key changes", () => {
+		const db = new Database(":memory:");
+		db.exec(
+			"CREATE TABLE users (id NUMERIC NOT NULL, name TEXT NOT NULL, PRIMARY KEY (id, name))",
+		);
+		expect(planMigration(db, [userSchema]).steps).toEqual([
+			{
+				kind: "rebuildTable",
+				table: "users",
+				reasons: ["primary key changed from (id, name) to (id)"],
+			},
+		]);
+	});
+
+	it("rebuilds the table to add a NOT NULL column", () => {
+		const db = new Database(":memory:");
+		db.exec("CREATE TABLE users (id NUMERIC NOT NULL, PRIMARY KEY (id))");
+		expect(planMigration(db, [userSchema]).steps).toEqual([
+			{
+				kind: "rebuildTable",
+				table: "users",
+				reasons: ["column name is added as NOT NULL"],
+			},
+		]);
+	});
+
+	it("adds a NOT NULL column with a constant default in place", () => {
+		const db = new Database(":memory:");
+		db.exec(
+			"CREATE TABLE users (id NUMERIC NOT NULL, name TEXT NOT NULL, PRIMARY KEY (id))",
+		);
+		const schema = {
+			...userSchema,
+			columns: {
+				...userSchema.columns,
+				active: {
+					kind: "boolean",
+					default: { kind: "constant", value: true },
+				},
+			},
+		} satisfies TableSchemaBase;
+		expect(planMigration(db, [schema]).statements).toEqual([
+			"ALTER TABLE users ADD COLUMN active INTEGER NOT NULL DEFAULT 1",
+		]);
+	});
+
+	it("plans nothing for a table with generated columns that matches the schema", () => {
+		const db = new Database(":memory:");
+		const schema = {
+			...userSchema,
+			columns: {
+				...userSchema.columns,
+				initial: {
+					kind: "string",
+					generated: { kind: "computed", sql: "substr(name, 1, 1)" },
+				},
+			},
+		} satisfies TableSchemaBase;
+		applyMigration(db, planMigration(db, [schema]));
+		expect(planMigration(db, [schema]).steps).toEqual([]);
+	});
+
+	it("rebuilds the table when the values of an enum column change", () => {
+		const db = new Database(":memory:");
+		const status = (values: string[]) =>
+			({
+				...userSchema,
+				columns: {
+					...userSchema.columns,
+					status: { kind: "enum", values },
+				},
+			}) satisfies TableSchemaBase;
+		applyMigration(db, planMigration(db, [status(["open", "closed"])]));
+		expect(planMigration(db, [status(["closed", "open"])]).steps).toEqual([]);
+
+		const plan = planMigration(db, [status(["open", "closed", "archived"])]);
+		expect(plan.steps).toEqual([
+			{
+				kind: "rebuildTable",
+				table: "users",
+				reasons: ["column status changed its allowed values"],
+			},
+		]);
+		applyMigration(db, plan);
+		db.prepare("INSERT INTO users VALUES (1, 'Ann', 'archived')").run();
+	});
+
+	it("rebuilds the table when a default or a generated expression changes", () => {
+		const db = new Database(":memory:");
+		const schema = (
+			active: boolean,
+			createdAt: string,
+			initial: string,
+			stored: boolean,
+		) =>
+			({
+				...userSchema,
+				columns: {
+					...userSchema.columns,
+					active: {
+						kind: "boolean",
+						default: { kind: "constant", value: active },
+					},
+					created_at: {
+						kind: "string",
+						default: { kind: "sql", sql: createdAt },
+					},
+					initial: {
+						kind: "string",
+						generated: { kind: "computed", sql: initial, stored },
+					},
+				},
+			}) satisfies TableSchemaBase;
+		const initial = "substr(name, 1, 1)";
+		applyMigration(
+			db,
+			planMigration(db, [schema(true, "datetime('now')", initial, false)]),
+		);
+		expect(
+			planMigration(db, [schema(true, "datetime('now')", initial, false)])
+				.steps,
+		).toEqual([]);
+
+		const reasonsOf = (next: TableSchemaBase) =>
+			planMigration(db, [next]).steps.flatMap((step) =>
+				step.kind === "rebuildTable" ? step.reasons : [],
+			);
+		expect(
+			reasonsOf(schema(false, "date('now')", "upper(name)", false)),
+		).toEqual([
+			"column active changed its default",
+			"column created_at changed its default",
+			"column initial changed how it is generated",
+		]);
+		expect(reasonsOf(schema(true, "datetime('now')", initial, true))).toEqual([
+			"column initial changed how it is generated",
+		]);
+	});
+
+	it("creates the indexes of a new table", () => {
+		const db = new Database(":memory:");
+		const schema = {
+			...userSchema,
+			uniqueIndexes: { name: ["name"] },
+		} satisfies TableSchemaBase;
+		expect(planMigration(db, [schema]).steps).toEqual([
+			{ kind: "createTable", table: "users" },
+			{ kind: "createIndex", table: "users", index: "users_name" },
+		]);
+	});
+
+	it("creates declared indexes and drops the others", () => {
+		const db = new Database(":memory:");
+		db.exec(`
+			CREATE TABLE users (id NUMERIC NOT NULL, name TEXT NOT NULL, PRIMARY KEY (id));
+			CREATE INDEX users_old ON users (name);
+		`);
+		const schema = {
+			...userSchema,
+			uniqueIndexes: { name: ["name"] },
+		} satisfies TableSchemaBase;
+		const plan = planMigration(db, [schema]);
+		expect(plan.statements).toEqual([
+			"DROP INDEX users_old",
+			"CREATE UNIQUE INDEX users_name ON users (name)",
+		]);
+
+		applyMigration(db, plan);
+		expect(planMigration(db, [schema]).steps).toEqual([]);
+	});
+
+	it("adds a nullable column in place", () => {
+		const db = new Database(":memory:");
+		db.exec(
+			"CREATE TABLE users (id NUMERIC NOT NULL, name TEXT NOT NULL, PRIMARY KEY (id))",
+		);
+		const schema = {
+			...userSchema,
+			columns: {
+				...userSchema.columns,
+				bio: { kind: "string", nullable: true },
+			},
+		} satisfies TableSchemaBase;
+		expect(planMigration(db, [schema])).toEqual({
+			steps: [
+				{
+					kind: "addColumn",
+					table: "users",
+					column: { name: "bio", type: "TEXT", notNull: false },
+				},
+			],
+			statements: ["ALTER TABLE users ADD COLUMN bio TEXT"],
+		});
+	});
+});
+
+const bookSchema = {
+	name: "books",
+	columns: {
+		id: { kind: "number" },
+		user_id: { kind: "number" },
+	},
+	primaryKey: ["id"] as const,
+	foreignKeys: [
+		{
+			columns: ["user_id"],
+			references: { table: "users", columns: ["id"] },
+			onDelete: "cascade",
+		},
+	],
+} satisfies TableSchemaBase;
+
+describe("planMigration with foreign keys", () => {
+	it("plans nothing for foreign keys that match the schema", () => {
+		const db = new Database(":memory:");
+		applyMigration(db, planMigration(db, [userSchema, bookSchema]));
+		expect(planMigration(db, [userSchema, bookSchema]).steps).toEqual([]);
+	});
+
+	it("rebuilds the table when its foreign keys change", () => {
+		const db = new Database(":memory:");
+		applyMigration(db, planMigration(db, [userSchema, bookSchema]));
+
+		const plan = planMigration(db, [
+			userSchema,
+			{ ...bookSchema, foreignKeys: [] },
+		]);
+		expect(plan.steps).toEqual([
+			{
+				kind: "rebuildTable",
+				table: "books",
+				reasons: ["foreign keys changed"],
+			},
+		]);
+	});
+});
+
+describe("applyMigration", () => {
+	it("applies the plan and keeps the rows of a rebuilt table", () => {
+		const db = new Database(":memory:");
+		db.exec(
+			"CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, age INTEGER)",
+		);
+		db.exec("INSERT INTO users VALUES (1, 'Alice', 30)");
+
+		applyMigration(db, planMigration(db, [userSchema]));
+
+		expect(readTableInfo(db, "users").map((col) => col.name)).toEqual([
+			"id",
+			"name",
+		]);
+		expect(db.prepare("SELECT * FROM users").all()).toEqual([
+			{ id: 1, name: "Alice" },
+		]);
+	});
+
+	it("records the plan in the migrations table and user_version", () => {
+		const db = new Database(":memory:");
+		const plan = planMigration(db, [userSchema]);
+
+		applyMigration(db, plan);
+
+		expect(db.pragma("user_version", { simple: true })).toBe(1);
+		const recorded = db
+			.prepare(`SELECT version, steps FROM ${migrationsTableName}`)
+			.all();
+		expect(recorded).toEqual([
+			{ version: 1, steps: JSON.stringify(plan.steps) },
+		]);
+	});
+
+	it("leaves the database untouched when a statement fails", () => {
+		const db = new Database(":memory:");
+		db.exec("CREATE TABLE users (id NUMERIC NOT NULL, PRIMARY KEY (id))");
+		db.exec("INSERT INTO users VALUES (1)");
+
+		expect(() => applyMigration(db, planMigration(db, [userSchema]))).toThrow(
+			/NOT NULL constraint failed/,
+		);
+
+		expect(readTableInfo(db, "users").map((col) => col.name)).toEqual(["id"]);
+		expect(db.pragma("user_version", { simple: true })).toBe(0);
+	});
+
+	it("keeps the rows referring to a rebuilt table", () => {
+		const db = new Database(":memory:");
+		db.pragma("foreign_keys = ON");
+		applyMigration(db, planMigration(db, [userSchema, bookSchema]));
+		db.exec("INSERT INTO users VALUES (1, 'Alice')");
+		db.exec("INSERT INTO books VALUES (1, 1)");
+
+		applyMigration(
+			db,
+			planMigration(db, [
+				{
+					...userSchema,
+					columns: { ...userSchema.columns, name: { kind: "number" } },
+				},
+				bookSchema,
+			]),
+		);
+
+		expect(db.prepare("SELECT * FROM books").all()).toEqual([
+			{ id: 1, user_id: 1 },
+		]);
+		expect(db.pragma("foreign_keys", { simple: true })).toBe(1);
+	});
+});
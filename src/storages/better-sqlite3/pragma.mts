@@ -0,0 +1,138 @@
+import type { Database } from "better-sqlite3";
+
+export type TableInfoRow = {
+	cid: number;
+	name: string;
+	type: string;
+	notnull: 0 | 1;
+	dflt_value: string | null;
+	// 1-based position in the primary key, 0 if the column isn't part of it
+	pk: number;
+	// 2 for virtual and 3 for stored generated columns, 0 otherwise
+	hidden: number;
+};
+
+// Unlike `table_info`, `table_xinfo` also lists generated columns
+export function readTableInfo(
+	database: Database,
+	table: string,
+): TableInfoRow[] {
+	return database.pragma(`table_xinfo(${table})`) as TableInfoRow[];
+}
+
+export function readPrimaryKey(columns: TableInfoRow[]): string[] {
+	return columns
+		.filter((col) => col.pk > 0)
+		.sort((a, b) => a.pk - b.pk)
+		.map((col) => col.name);
+}
+
+export type IndexListRow = {
+	seq: number;
+	name: string;
+	unique: 0 | 1;
+	// "c" for CREATE INDEX, "u" for UNIQUE constraints, "pk" for the primary key
+	origin: "c" | "u" | "pk";
+	partial: 0 | 1;
+};
+
+export function readIndexList(
+	database: Database,
+	table: string,
+): IndexListRow[] {
+	return database.pragma(`index_list(${table})`) as IndexListRow[];
+}
+
+export function readIndexColumns(database: Database, index: string): string[] {
+	return (
+		database.pragma(`index_info(${index})`) as {
+			seqno: number;
+			name: string;
+		}[]
+	)
+		.sort((a, b) => a.seqno - b.seqno)
+		.map((col) => col.name);
+}
+
+export type ForeignKeyListRow = {
+	// Rows of the same foreign key share its id and are ordered by seq
+	id: number;
+	seq: number;
+	table: string;
+	from: string;
+	to: string;
+	on_update: string;
+	on_delete: string;
+};
+
+export function readForeignKeyList(
+	database: Database,
+	table: string,
+): ForeignKeyListRow[] {
+	return database.pragma(`foreign_key_list(${table})`) as ForeignKeyListRow[];
+}
+
+// The column definitions of the table's CREATE TABLE statement by column
+// name, leaving out table constraints
+export function readColumnDefinitions(
+	database: Database,
+	table: string,
+): Map<string, string> {
+	const created = database
+		.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?")
+		.get(table) as { sql: string } | undefined;
+	const sql = created?.sql ?? "";
+	const body = sql.slice(sql.indexOf("(") + 1, sql.lastIndexOf(")"));
+
+	// Splits at the commas outside parentheses and quotes
+	const parts: string[] = [];
+	let depth = 0;
+	let quote: string | undefined;
+	let start = 0;
+	for (let i = 0; i < body.length; i++) {
+		const char = body[i];
+		if (quote !== undefined) {
+			if (char === quote) quote = undefined;
+		} else if (char === "'" || char === '"' || char === "`") {
+			quote = char;
+		} else if (char === "(") {
+			depth++;
+		} else if (char === ")") {
+			depth--;
+		} else if (char === "," && depth === 0) {
+			parts.push(body.slice(start, i).trim());
+			start = i + 1;
+		}
+	}
+	parts.push(body.slice(start).trim());
+
+	const definitions = new Map<string, string>();
+	for (const part of parts) {
+		if (/^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)\b/i.test(part)) continue;
+		const name = part.match(/^(?:"([^"]+)"|`([^`]+)`|(\S+))/);
+		if (name) definitions.set(name[1] ?? name[2] ?? name[3] ?? "", part);
+	}
+	return definitions;
+}
+
+// The expression of a `GENERATED ALWAYS AS (...)` column
+export function readGeneratedSql(definition: string): string | undefined {
+	const match = /GENERATED\s+ALWAYS\s+AS\s*\(/i.exec(definition);
+	if (!match) return undefined;
+	const start = match.index + match[0].length;
+	let depth = 1;
+	let quote: string | undefined;
+	for (let i = start; i < definition.length; i++) {
+		const char = definition[i];
+		if (quote !== undefined) {
+			if (char === quote) quote = undefined;
+		} else if (char === "'" || char === '"') {
+			quote = char;
+		} else if (char === "(") {
+			depth++;
+		} else if (char === ")" && --depth === 0) {
+			return definition.slice(start, i).trim();
+		}
+	}
+	return undefined;
+}
@@ -1,32 +1,179 @@
 import type { Observable } from "rxjs";
-import type { Page, PageDelta, PageEvent, PageInit } from "../Page.mjs";
+import type {
+	Page,
+	PageDelta,
+	PageEvent,
+	PageInit,
+	RangeWindow,
+	RowRange,
+} from "../Page.mjs";
 import type { Dynamic } from "../core/Dynamic.mjs";
 
 export interface TableSchemaBase {
 	name: string;
 	columns: Record<string, ColumnType>;
 	primaryKey: readonly (string & keyof this["columns"])[];
+	// Columns that identify a row besides the primary key, by index name
+	uniqueIndexes?: Record<string, readonly (string & keyof this["columns"])[]>;
+	// Columns indexed to speed up filtering and ordering, by index name
+	indexes?: Record<string, readonly (string & keyof this["columns"])[]>;
+	foreignKeys?: readonly ForeignKey<string & keyof this["columns"]>[];
+	// Rows of other tables a read can include, by relation name
+	relations?: Record<string, Relation<string & keyof this["columns"]>>;
 }
 
+/**
+ * The rows of `schema` whose `references` columns hold the values of
+ * `columns`. A "one" relation includes the row or null, a "many" relation
+ * the list of rows in primary key order.
+ */
+export type Relation<Column extends string = string> = {
+	kind: "one" | "many";
+	schema: TableSchemaBase;
+	columns: readonly Column[];
+	references: readonly string[];
+};
+
+export type ForeignKeyAction =
+	| "cascade"
+	| "set null"
+	| "set default"
+	| "restrict"
+	| "no action";
+
+/**
+ * Columns referring to a row of another table, by the name of that table and
+ * the columns of its primary key or of one of its unique indexes.
+ */
+export type ForeignKey<Column extends string = string> = {
+	columns: readonly Column[];
+	references: { table: string; columns: readonly string[] };
+	onDelete?: ForeignKeyAction;
+	onUpdate?: ForeignKeyAction;
+};
+
 export type ColumnType = {
-	kind: "string" | "number" | "boolean" | "date";
+	kind: "string" | "number" | "boolean" | "date" | "json" | "bigint" | "enum";
+	// Whether the column accepts NULL
+	nullable?: boolean;
+	// The values an `enum` column allows, declared `as const` to type rows with
+	// their literal union
+	values?: readonly string[];
+	// How a `date` column is stored, ISO 8601 text by default
+	dateFormat?: "iso" | "epoch";
+	// Converts values of the column to and from what the storage holds
+	codec?: ColumnCodec<unknown, unknown>;
+	// The value an insert that leaves the column out gets
+	default?: { kind: "constant"; value: unknown } | { kind: "sql"; sql: string };
+	// Filled in by the database, so inserts never provide it
+	generated?:
+		| { kind: "autoincrement" }
+		| { kind: "computed"; sql: string; stored?: boolean };
+};
+
+/**
+ * Converts between the value a row holds and the value the storage holds.
+ * NULL never reaches a codec.
+ */
+export type ColumnCodec<Value, Stored> = {
+	encode(value: Value): Stored;
+	decode(stored: Stored): Value;
 };
 
-export type ScalarToType<T extends ColumnType> = {
-	string: string;
-	number: number;
-	boolean: boolean;
-	date: Date;
-}[T["kind"]];
+export type ScalarToType<T extends ColumnType> =
+	| (T extends { codec: ColumnCodec<infer V, infer _> }
+			? V
+			: T extends { kind: "enum"; values: readonly (infer V)[] }
+				? V
+				: {
+						string: string;
+						number: number;
+						boolean: boolean;
+						date: Date;
+						json: unknown;
+						bigint: bigint;
+						enum: string;
+					}[T["kind"]])
+	| (T extends { nullable: true } ? null : never);
 
 export type Row<T extends TableSchemaBase> = {
 	[key in keyof T["columns"]]: ScalarToType<T["columns"][key]>;
 };
 export type ColumnName<T extends TableSchemaBase> = string & keyof T["columns"];
+
+// Columns an insert may leave out
+type DefaultedColumn<T extends TableSchemaBase> = {
+	[K in ColumnName<T>]: T["columns"][K] extends
+		| { default: object }
+		| { generated: { kind: "autoincrement" } }
+		? K
+		: never;
+}[ColumnName<T>];
+// Columns an insert can't provide
+type ComputedColumn<T extends TableSchemaBase> = {
+	[K in ColumnName<T>]: T["columns"][K] extends {
+		generated: { kind: "computed" };
+	}
+		? K
+		: never;
+}[ColumnName<T>];
+
+/**
+ * A row as it is inserted: columns with a default or an autoincrement are
+ * optional and computed columns are left out.
+ */
+export type InsertRow<T extends TableSchemaBase> = Omit<
+	Row<T>,
+	DefaultedColumn<T> | ComputedColumn<T>
+> &
+	Partial<Pick<Row<T>, Exclude<DefaultedColumn<T>, ComputedColumn<T>>>>;
+/**
+ * A row as it is upserted: an insert row with its key, where defaulted columns
+ * left out keep their stored value on update.
+ */
+export type UpsertRow<T extends TableSchemaBase> = InsertRow<T> &
+	PrimaryKeyRecord<T>;
 export type PrimaryKey<T extends TableSchemaBase> = T["primaryKey"];
 export type PrimaryKeyRecord<T extends TableSchemaBase> = {
 	[key in PrimaryKey<T>[number]]: ScalarToType<T["columns"][key]>;
 };
+export type RelationName<T extends TableSchemaBase> = string &
+	keyof T["relations"];
+export type Included<T extends TableSchemaBase, I extends RelationName<T>> = {
+	[name in I]: NonNullable<T["relations"]>[name] extends infer R extends
+		Relation
+		? R["kind"] extends "one"
+			? Row<R["schema"]> | null
+			: Row<R["schema"]>[]
+		: never;
+};
+export type CursorWith<
+	T extends TableSchemaBase,
+	Cursor extends PrimaryKeyRecord<T>,
+	I extends RelationName<T>,
+> = [I] extends [never] ? Cursor : Cursor & Included<T, I>;
+// A row with the relations of `I` included
+export type RowWith<
+	T extends TableSchemaBase,
+	I extends RelationName<T> = never,
+> = [I] extends [never] ? Row<T> : Row<T> & Included<T, I>;
+export type FindOptions<
+	T extends TableSchemaBase,
+	I extends RelationName<T>,
+> = {
+	include?: readonly I[];
+};
+
+export type UniqueIndexName<T extends TableSchemaBase> = string &
+	keyof T["uniqueIndexes"];
+export type UniqueIndexRecord<
+	T extends TableSchemaBase,
+	I extends UniqueIndexName<T>,
+> = {
+	[key in NonNullable<T["uniqueIndexes"]>[I][number]]: ScalarToType<
+		T["columns"][key]
+	>;
+};
 export type PrimaryKeyTuple<T extends TableSchemaBase> =
 	PrimaryKey<T> extends readonly (infer K)[]
 		? {
@@ -44,31 +191,62 @@ export type ReadableTable<T extends TableSchemaBase> = {
 	// 	rsql: Select<T>,
 	// ): PreparedQueryAll<Context, Row>;
 
-	findUnique(key: PrimaryKeyRecord<T>): Dynamic<Row<T> | null, void>;
-	findMany<Cursor extends PrimaryKeyRecord<T>>(
+	findUnique<I extends RelationName<T> = never>(
+		key: PrimaryKeyRecord<T>,
+		options?: FindOptions<T, I>,
+	): Dynamic<RowWith<T, I> | null, void>;
+	findUniqueBy<I extends UniqueIndexName<T>>(
+		indexName: I,
+		values: UniqueIndexRecord<T, I>,
+	): Dynamic<Row<T> | null, void>;
+	findMany<
+		Cursor extends PrimaryKeyRecord<T>,
+		I extends RelationName<T> = never,
+	>(
 		pageInput: PageInit<T, Cursor>,
 		pageEvent: Observable<PageEvent>,
-	): Dynamic<Page<T, Cursor>, PageDelta<T>>;
+		options?: FindOptions<T, I>,
+	): Dynamic<
+		Page<T, CursorWith<T, Cursor, I>>,
+		PageDelta<T, CursorWith<T, Cursor, I>>
+	>;
+	indexOf(
+		options: Pick<PageInit<T, Row<T>>, "filter" | "orderBy">,
+		key: PrimaryKeyRecord<T>,
+	): Dynamic<number | null, void>;
+	findRange<Cursor extends PrimaryKeyRecord<T>>(
+		options: Pick<PageInit<T, Cursor>, "filter" | "orderBy" | "select">,
+		range: Observable<RowRange>,
+	): Dynamic<RangeWindow<T, Cursor>, PageDelta<T, Cursor>>;
 };
 
 export type WritableTable<T extends TableSchemaBase> = {
-	insert(row: Row<T>): void;
-	upsert(row: Row<T>): void;
+	insert(row: InsertRow<T>): Row<T>;
+	upsert(row: UpsertRow<T>): void;
 	update(key: PrimaryKeyRecord<T>, partialRow: Partial<Row<T>>): void;
 	delete(key: PrimaryKeyRecord<T>): void;
 };
 
+/**
+ * A change made through a `Table`.
+ * `before` and `after` are full images of the row around the change, filled
+ * in by `Table` whenever the row could be read.
+ */
 export type TableEvent<T extends TableSchemaBase> =
 	| {
 			kind: "insert";
 			row: Row<T>;
+			after?: Row<T>;
 	  }
 	| {
 			kind: "update";
 			key: PrimaryKeyRecord<T>;
 			row: Partial<Omit<Row<T>, PrimaryKey<T>[number]>>;
+			before?: Row<T>;
+			after?: Row<T>;
 	  }
 	| {
 			kind: "delete";
 			key: PrimaryKeyRecord<T>;
+			before?: Row<T>;
 	  };
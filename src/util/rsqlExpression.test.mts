@@ -107,4 +107,98 @@ describe("rsqlExpressionToFilterFn", () => {
 		expect(fn({ ...row, age: 30 })).toBe(true); // 30 + 10 == 2 * 20
 		expect(fn({ ...row, age: 25 })).toBe(false);
 	});
+
+	describe("with NULL", () => {
+		const profileSchema = {
+			name: "Profile",
+			columns: {
+				id: { kind: "number" },
+				nickname: { kind: "string", nullable: true },
+			},
+			primaryKey: ["id"] as const,
+		} satisfies TableSchemaBase;
+		type ProfileTable = typeof profileSchema;
+
+		const nickname: Expression<ProfileTable> = {
+			kind: "column",
+			name: "nickname",
+		};
+		const withNickname = { id: 1, nickname: "Al" };
+		const withoutNickname = { id: 2, nickname: null };
+
+		it("handles IS NULL and IS NOT NULL", () => {
+			const isNull = rsqlExpressionToFilterFn<ProfileTable>({
+				kind: "unOp",
+				operator: "IS NULL",
+				expression: nickname,
+			});
+			const isNotNull = rsqlExpressionToFilterFn<ProfileTable>({
+				kind: "unOp",
+				operator: "IS NOT NULL",
+				expression: nickname,
+			});
+			expect(isNull(withoutNickname)).toBe(true);
+			expect(isNull(withNickname)).toBe(false);
+			expect(isNotNull(withoutNickname)).toBe(false);
+			expect(isNotNull(withNickname)).toBe(true);
+		});
+
+		it("doesn't match comparisons against NULL, nor their negation", () => {
+			const eq: Expression<ProfileTable> = {
+				kind: "binOp",
+				operator: "=",
+				left: nickname,
+				right: { kind: "constant", value: "Al" },
+			};
+			const fn = rsqlExpressionToFilterFn(eq);
+			const notFn = rsqlExpressionToFilterFn<ProfileTable>({
+				kind: "unOp",
+				operator: "NOT",
+				expression: eq,
+			});
+			expect(fn(withoutNickname)).toBe(false);
+			expect(notFn(withoutNickname)).toBe(false);
+			expect(notFn(withNickname)).toBe(false);
+			expect(notFn({ id: 3, nickname: "Bo" })).toBe(true);
+		});
+
+		it("treats NULL = NULL as unknown but NULL IS NULL as true", () => {
+			const compare = (operator: "=" | "IS") =>
+				rsqlExpressionToFilterFn<ProfileTable>({
+					kind: "binOp",
+					operator,
+					left: nickname,
+					right: { kind: "constant", value: null },
+				});
+			expect(compare("=")(withoutNickname)).toBe(false);
+			expect(compare("IS")(withoutNickname)).toBe(true);
+			expect(compare("IS")(withNickname)).toBe(false);
+		});
+
+		it("evaluates AND/OR with three-valued logic", () => {
+			const unknown: Expression<ProfileTable> = {
+				kind: "binOp",
+				operator: "=",
+				left: nickname,
+				right: { kind: "constant", value: "Al" },
+			};
+			const logic = (operator: "AND" | "OR", value: boolean) =>
+				rsqlExpressionToFilterFn<ProfileTable>({
+					kind: "unOp",
+					operator: "NOT",
+					expression: {
+						kind: "binOp",
+						operator,
+						left: unknown,
+						right: { kind: "constant", value },
+					},
+				});
+			// NOT (NULL AND false) is true, NOT (NULL AND true) is unknown
+			expect(logic("AND", false)(withoutNickname)).toBe(true);
+			expect(logic("AND", true)(withoutNickname)).toBe(false);
+			// NOT (NULL OR true) is false, NOT (NULL OR false) is unknown
+			expect(logic("OR", true)(withoutNickname)).toBe(false);
+			expect(logic("OR", false)(withoutNickname)).toBe(false);
+		});
+	});
 });
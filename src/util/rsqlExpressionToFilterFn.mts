@@ -2,6 +2,11 @@ import type { Expression } from "../RSql/Expression.mjs";
 import type { Row } from "../types/TableSchema.mjs";
 import type { TableSchemaBase } from "../types/TableSchema.mjs";
 
+/**
+ * Builds a predicate that agrees with SQLite on which rows match `condition`.
+ * NULL is evaluated with SQL's three-valued logic: comparisons and arithmetic
+ * involving NULL yield NULL, and a row only matches when the condition is true.
+ */
 export function rsqlExpressionToFilterFn<T extends TableSchemaBase>(
 	condition: Expression<T>,
 ): (value: Row<T>) => boolean {
@@ -9,17 +14,36 @@ export function rsqlExpressionToFilterFn<T extends TableSchemaBase>(
 	function evalExpr(expr: Expression<T>, row: Row<T>): any {
 		switch (expr.kind) {
 			case "column":
-				return row[expr.name];
+				return row[expr.name] ?? null;
 			case "constant":
-				return expr.value;
+				return expr.value ?? null;
 			case "binOp": {
 				const left = evalExpr(expr.left, row);
 				const right = evalExpr(expr.right, row);
+				switch (expr.operator) {
+					case "AND": {
+						const l = truth(left);
+						const r = truth(right);
+						if (l === false || r === false) return false;
+						return l === null || r === null ? null : true;
+					}
+					case "OR": {
+						const l = truth(left);
+						const r = truth(right);
+						if (l === true || r === true) return true;
+						return l === null || r === null ? null : false;
+					}
+					case "IS":
+						return isSame(left, right);
+					case "IS NOT":
+						return !isSame(left, right);
+				}
+				if (left === null || right === null) return null;
 				switch (expr.operator) {
 					case "=":
-						return left === right;
+						return isSame(left, right);
 					case "!=":
-						return left !== right;
+						return !isSame(left, right);
 					case "<":
 						return left < right;
 					case "<=":
@@ -39,23 +63,43 @@ export function rsqlExpressionToFilterFn<T extends TableSchemaBase>(
 					case "^":
 						return left ** right;
 					default:
-						throw new Error(`Unsupported operator: ${expr}`);
+						throw new Error(`Unsupported operator: ${expr.operator}`);
 				}
 			}
 			case "unOp": {
 				const val = evalExpr(expr.expression, row);
+				switch (expr.operator) {
+					case "IS NULL":
+						return val === null;
+					case "IS NOT NULL":
+						return val !== null;
+				}
+				if (val === null) return null;
 				switch (expr.operator) {
 					case "+":
 						return +val;
 					case "-":
 						return -val;
+					case "NOT":
+						return !truth(val);
 					default:
-						throw new Error(`Unsupported unary operator: ${expr}`);
+						throw new Error(`Unsupported unary operator: ${expr.operator}`);
 				}
 			}
 			default:
 				throw new Error("Unknown SqlExpression kind");
 		}
 	}
-	return (row: Row<T>) => !!evalExpr(condition, row);
+	return (row: Row<T>) => truth(evalExpr(condition, row)) === true;
+}
+
+function truth(value: unknown): boolean | null {
+	return value === null ? null : !!value;
+}
+
+function isSame(left: unknown, right: unknown): boolean {
+	if (left instanceof Date && right instanceof Date) {
+		return left.getTime() === right.getTime();
+	}
+	return left === right;
 }
@@ -1,12 +1,17 @@
 import assert from "assert";
 
+// NULL sorts before any other value, as it does in SQLite
 export function compareTuple<T extends unknown[]>(x: T, y: T): number {
 	assert(x.length === y.length, "Tuples must have the same length");
 	for (let i = 0; i < x.length; i++) {
-		// biome-ignore lint/style/noNonNullAssertion: <explanation>
-		if (x[i]! < y[i]!) return -1;
-		// biome-ignore lint/style/noNonNullAssertion: <explanation>
-		if (x[i]! > y[i]!) return 1;
+		const a = x[i] ?? null;
+		const b = y[i] ?? null;
+		if (a === null || b === null) {
+			if (a !== b) return a === null ? -1 : 1;
+			continue;
+		}
+		if (a < b) return -1;
+		if (a > b) return 1;
 	}
 	return 0;
 }